@@ -0,0 +1,356 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { DeepPartial, mergeConfig } from './config-loader';
+import { Backtester } from './backtest';
+import { MemoryDataSource } from './market-data';
+import { Candle, TradeDetailsResult } from './interfaces';
+
+const START = Date.UTC(2024, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+// [open, high, low, close]
+type Bar = [number, number, number, number];
+
+// With a 5 candle lookback and a threshold of 2, fifteen 1% candles give a 2% dynamic
+// threshold. LEGEND closes at 103, so LONG fills at 105.06 and SHORT at 100.94, and
+// the step ladder moves in steps of 2% of the entry price.
+const WARMUP: Bar[] = Array.from({ length: 15 }, () => [100, 101, 100, 101] as Bar);
+const LEGEND: Bar = [100, 103, 100, 103];
+const QUIET: Bar = [103, 103, 103, 103];
+const LONG_ENTRY = 105.06;
+
+function toCandles(bars: Bar[]): Candle[] {
+  return bars.map(([open, high, low, close], i) => ({
+    openTime: START + i * HOUR_MS,
+    open,
+    high,
+    low,
+    close,
+    volume: 1000,
+    closeTime: START + (i + 1) * HOUR_MS - 1,
+  }));
+}
+
+function testConfig(overrides: DeepPartial<TradingConfig> = {}): TradingConfig {
+  const base = mergeConfig(config, {
+    strategy: { lookbackPeriod: { candles: 5, threshold: 2 } },
+    trade: { maxLookForwardCandles: 50 },
+    backtestMode: { type: 'single' },
+    singleBacktest: { symbol: 'TESTUSDT', timeframe: '1h' },
+    logging: { level: 'quiet' },
+    report: { html: 'off' },
+  });
+  return mergeConfig(base, overrides);
+}
+
+async function runBacktest(bars: Bar[], runConfig: TradingConfig, symbol = 'TESTUSDT'): Promise<Backtester> {
+  const backtester = new Backtester(symbol, runConfig, new MemoryDataSource());
+  backtester.setCandles(toCandles(bars));
+  await backtester.findMatchingCandles({ saveResults: false });
+  return backtester;
+}
+
+function getTrades(backtester: Backtester): TradeDetailsResult[] {
+  return backtester.getMatchingCandles().map((candle) => candle.trade_result!);
+}
+
+test('the performance summary sums unrounded COIN-M PnL', async () => {
+  // Trails twice and exits on the first trailed stop, 2% above entry
+  const bars: Bar[] = [...WARMUP, LEGEND, QUIET, [103, 105.5, 103, 105.5], [105.5, 109.5, 105.5, 109.5], [109.5, 109.5, 106, 106]];
+  const runConfig = testConfig({
+    account: { initialBalance: 0.00001 },
+    market: { subType: 'cm', contractSize: 10 },
+    costs: { fees: { cm: { maker: 0, taker: 0 } } },
+  });
+
+  const backtester = await runBacktest(bars, runConfig, 'TESTUSD_PERP');
+  const [trade] = getTrades(backtester);
+  const summary = backtester.getPerformanceSummary();
+
+  // Below the 6 decimals trade_summary.PNL shows
+  assert.equal(trade.trailing_details.trade_summary.PNL, '0.000000 TEST');
+  assert.ok(trade.costs.net_pnl > 0);
+  assert.equal(summary.net_pnl, trade.costs.net_pnl);
+  assert.equal(summary.win_rate, 100);
+});
+
+// 50x LONG with a take-profit leg at half the threshold, 106.11, and the initial stop 2% below entry at 102.96
+function liquidationConfig(marginMode: 'isolated' | 'cross', positionSizePercent: number, closePercent: number): TradingConfig {
+  return testConfig({
+    account: { positionSizePercent },
+    market: { leverage: 50, marginMode },
+    trade: { takeProfit: { targets: [{ multiple: 0.5, closePercent }] } },
+  });
+}
+const TAKE_PROFIT_BAR: Bar = [105.5, 106.5, 105.5, 106.5];
+
+test('a cross liquidation after a take-profit leg is priced for the remaining size and takes the whole account', async () => {
+  // 50000 notional on the 1000 account, liquidated at 103.48 before the take-profit leg
+  const bars: Bar[] = [...WARMUP, LEGEND, QUIET, [103, 105.5, 103, 105.5], TAKE_PROFIT_BAR, [106.5, 106.5, 103.1, 103.1]];
+  const backtester = await runBacktest(bars, liquidationConfig('cross', 100, 10));
+  const [trade] = getTrades(backtester);
+
+  // 90% stays open with the take-profit leg's gain behind it
+  const size = trade.position.size * 0.9;
+  const walletBalance = 1000 + (106.1106 - LONG_ENTRY) * trade.position.size * 0.1;
+  const liquidationPrice = (walletBalance - size * LONG_ENTRY) / (size * 0.005 - size);
+  // Further away than at entry, still short of the stop
+  assert.ok(liquidationPrice < trade.position.liquidation_price! && liquidationPrice > 102.96);
+
+  const [takeProfit, liquidation] = trade.legs;
+  assert.equal(takeProfit.exit_type, 'TAKE_PROFIT');
+  assert.equal(liquidation.exit_type, 'LIQUIDATION');
+  assert.ok(Math.abs(liquidation.price - liquidationPrice) < 1e-9);
+  assert.ok(Math.abs(liquidation.pnl + 1000 + takeProfit.pnl) < 1e-9);
+  assert.ok(Math.abs(trade.costs.net_pnl + 1000) < 1e-9);
+});
+
+test('a cross position whose recomputed liquidation is past the stop exits at the stop', async () => {
+  const bars: Bar[] = [...WARMUP, LEGEND, QUIET, [103, 105.5, 103, 105.5], TAKE_PROFIT_BAR, [106.5, 106.5, 102, 102]];
+  const backtester = await runBacktest(bars, liquidationConfig('cross', 100, 25));
+  const [trade] = getTrades(backtester);
+
+  assert.deepEqual(trade.legs.map((leg) => leg.exit_type), ['TAKE_PROFIT', 'TRAILING_STOP']);
+});
+
+test('an isolated liquidation loses only the margin left behind the position', async () => {
+  // 5000 notional on 100 margin
+  const bars: Bar[] = [...WARMUP, LEGEND, QUIET, [103, 105.5, 103, 105.5], TAKE_PROFIT_BAR, [106.5, 106.5, 103, 103]];
+  const backtester = await runBacktest(bars, liquidationConfig('isolated', 10, 25));
+  const [trade] = getTrades(backtester);
+  const [takeProfit, liquidation] = trade.legs;
+
+  // Closing a quarter released a quarter of the margin, the liquidation price doesn't move
+  assert.equal(liquidation.exit_type, 'LIQUIDATION');
+  assert.equal(liquidation.price, trade.position.liquidation_price);
+  assert.equal(liquidation.pnl, -75);
+  assert.equal(trade.costs.net_pnl, takeProfit.pnl - 75);
+  assert.equal(backtester.getPerformanceSummary().net_pnl, trade.costs.net_pnl);
+});
+
+// A second legend candle at 108.6 while the first LONG is open. RALLY crosses its upper
+// threshold at 112.05 for another LONG, DROP its lower threshold at 105.15 for a SHORT.
+const SECOND_LEGEND: Bar[] = [...WARMUP, LEGEND, [103, 105.5, 103, 105], [105.1, 108.6, 105.1, 108.6]];
+const RALLY: Bar[] = [...SECOND_LEGEND, [108.6, 112.5, 108.6, 112.5], [112.5, 113, 112, 112.5]];
+const DROP: Bar[] = [...SECOND_LEGEND, [108.6, 108.6, 104, 104], [104, 104, 103.5, 103.5]];
+
+function positionsConfig(mode: TradingConfig['trade']['positions']['mode'], maxPositions = 2): TradingConfig {
+  return testConfig({ trade: { positions: { mode, maxPositions } } });
+}
+
+function getSkippedSignals(backtester: Backtester): Record<string, number> {
+  return backtester['skippedSignals'];
+}
+
+test('single mode skips signals while a position is open', async () => {
+  const backtester = await runBacktest(RALLY, positionsConfig('single'));
+  const trades = getTrades(backtester);
+
+  assert.equal(trades.length, 1);
+  assert.equal(trades[0].entry.price, LONG_ENTRY);
+  assert.deepEqual(getSkippedSignals(backtester), { position_open: 1 });
+});
+
+test('concurrent mode opens both sides up to maxPositions on a share of the balance', async () => {
+  const rally = await runBacktest(RALLY, positionsConfig('concurrent'));
+  const drop = await runBacktest(DROP, positionsConfig('concurrent'));
+
+  // Each position gets 100% / maxPositions of the balance
+  assert.deepEqual(getTrades(rally).map((trade) => trade.entry.side), ['LONG', 'LONG']);
+  assert.ok(Math.abs(getTrades(rally)[0].position.notional - 500) < 1e-9);
+  assert.deepEqual(getTrades(drop).map((trade) => trade.entry.side), ['LONG', 'SHORT']);
+  assert.deepEqual(getSkippedSignals(rally), {});
+
+  const full = await runBacktest(RALLY, positionsConfig('concurrent', 1));
+  assert.equal(getTrades(full).length, 1);
+  assert.deepEqual(getSkippedSignals(full), { max_positions: 1 });
+});
+
+test('pyramid mode only adds to the open direction', async () => {
+  const rally = await runBacktest(RALLY, positionsConfig('pyramid'));
+  const drop = await runBacktest(DROP, positionsConfig('pyramid'));
+
+  assert.deepEqual(getTrades(rally).map((trade) => trade.entry.side), ['LONG', 'LONG']);
+  assert.deepEqual(getTrades(drop).map((trade) => trade.entry.side), ['LONG']);
+  assert.deepEqual(getSkippedSignals(drop), { opposite_direction: 1 });
+});
+
+test('reverse mode closes the open position at the opposite entry and books it first', async () => {
+  const drop = await runBacktest(DROP, positionsConfig('reverse'));
+  const [long, short] = getTrades(drop);
+
+  assert.equal(long.trailing_details.exit_details.exit_type, 'REVERSED');
+  assert.equal(long.legs[0].price, short.entry.price);
+  assert.equal(short.entry.side, 'SHORT');
+  assert.equal(drop['reversals'], 1);
+  // The reversed trade settles at the new entry, before the SHORT
+  assert.equal(long.balance_after_trade, 1000 + long.costs.net_pnl);
+  assert.deepEqual(drop.getBalanceHistory().map((update) => update.balance), [
+    long.balance_after_trade,
+    short.balance_after_trade,
+  ]);
+
+  const rally = await runBacktest(RALLY, positionsConfig('reverse'));
+  assert.equal(getTrades(rally).length, 1);
+  assert.deepEqual(getSkippedSignals(rally), { same_direction: 1 });
+});
+
+test('positions settle in exit order', async () => {
+  // The first LONG stops out at its trailed stop on DROP's first candle, the SHORT runs to the end
+  const drop = await runBacktest(DROP, positionsConfig('concurrent'));
+  const [long, short] = getTrades(drop);
+
+  assert.equal(long.trailing_details.exit_details.exit_type, 'TRAILING_STOP');
+  assert.equal(short.trailing_details.exit_details.exit_type, 'OPEN_AT_END');
+  assert.equal(long.balance_after_trade, 1000 + long.costs.net_pnl);
+  assert.equal(short.balance_after_trade, long.balance_after_trade + short.costs.net_pnl);
+});
+
+// Legs at half and one and a half thresholds from entry: 106.11 and 108.21
+const TAKE_PROFIT_TARGETS = [{ multiple: 0.5, closePercent: 50 }, { multiple: 1.5, closePercent: 50 }];
+const ENTRY_BARS: Bar[] = [...WARMUP, LEGEND, QUIET, [103, 105.5, 103, 105.5]];
+
+test('take-profit targets close the position in legs at maker fees', async () => {
+  const bars: Bar[] = [...ENTRY_BARS, [105.5, 106.5, 105.5, 106.5], [106.5, 108.5, 106.5, 108.5]];
+  const backtester = await runBacktest(bars, testConfig({ trade: { takeProfit: { targets: TAKE_PROFIT_TARGETS } } }));
+  const [trade] = getTrades(backtester);
+
+  assert.equal(trade.trailing_details.exit_details.exit_type, 'TAKE_PROFIT');
+  assert.deepEqual(trade.legs.map((leg) => [leg.exit_type, leg.fraction]), [['TAKE_PROFIT', 0.5], ['TAKE_PROFIT', 0.5]]);
+  assert.ok(Math.abs(trade.legs[0].price - 106.1106) < 1e-9);
+  assert.ok(Math.abs(trade.legs[1].price - 108.2118) < 1e-9);
+  // 0.05% taker on the entry, 0.02% maker on each leg
+  const half = trade.position.size / 2;
+  assert.ok(Math.abs(trade.legs[0].costs.exit_fee - half * 106.1106 * 0.0002) < 1e-9);
+  assert.ok(Math.abs(trade.legs[0].costs.entry_fee - half * LONG_ENTRY * 0.0005) < 1e-9);
+  assert.ok(Math.abs(trade.costs.net_pnl - (trade.legs[0].pnl + trade.legs[1].pnl)) < 1e-9);
+});
+
+test('what the targets leave open keeps trailing', async () => {
+  const bars: Bar[] = [...ENTRY_BARS, [105.5, 106.5, 105.5, 106.5], [106.5, 106.5, 102, 102]];
+  const backtester = await runBacktest(bars, testConfig({
+    trade: { takeProfit: { targets: [{ multiple: 0.5, closePercent: 30 }] } },
+  }));
+  const [trade] = getTrades(backtester);
+
+  assert.deepEqual(trade.legs.map((leg) => [leg.exit_type, leg.price]), [
+    ['TAKE_PROFIT', 106.1106],
+    ['TRAILING_STOP', 102.9588],
+  ]);
+  assert.ok(Math.abs(trade.legs[1].fraction - 0.7) < 1e-9);
+});
+
+test('a time exit closes what is left at the close of the Nth candle', async () => {
+  const bars: Bar[] = [...ENTRY_BARS, [105.5, 106.5, 105.5, 106.5], [106.5, 106.5, 105.5, 106], [106, 106, 105, 105.2]];
+  const backtester = await runBacktest(bars, testConfig({
+    trade: { timeExit: { enabled: true, candles: 2 }, takeProfit: { targets: [{ multiple: 0.5, closePercent: 50 }] } },
+  }));
+  const [trade] = getTrades(backtester);
+
+  assert.equal(trade.trailing_details.exit_details.exit_type, 'TIME_EXIT');
+  assert.equal(trade.trailing_details.trade_summary.candles_in_trade, 2);
+  assert.deepEqual(trade.legs.map((leg) => [leg.exit_type, leg.price]), [['TAKE_PROFIT', 106.1106], ['TIME_EXIT', 106]]);
+});
+
+const HOLD: Bar = [105.5, 106, 105.5, 106];
+
+test('a position still open when the data ends is marked to market at the last close', async () => {
+  const backtester = await runBacktest([...ENTRY_BARS, HOLD, HOLD], testConfig());
+  const [trade] = getTrades(backtester);
+
+  assert.equal(trade.trailing_details.exit_details.exit_type, 'OPEN_AT_END');
+  assert.equal(trade.legs[0].price, 106);
+  assert.equal(trade.trailing_details.trade_summary.candles_in_trade, 2);
+  // It counts like any closed trade
+  assert.equal(backtester.getPerformanceSummary().trade_count, 1);
+  assert.equal(backtester.getBalanceHistory().length, 1);
+});
+
+test('a position still open after maxLookForwardCandles times out at that close', async () => {
+  const bars: Bar[] = [...ENTRY_BARS, HOLD, [106, 106.5, 106, 106.5], [106.5, 107, 106.5, 107]];
+  const backtester = await runBacktest(bars, testConfig({ trade: { maxLookForwardCandles: 2 } }));
+  const [trade] = getTrades(backtester);
+
+  assert.equal(trade.trailing_details.exit_details.exit_type, 'TIMEOUT');
+  assert.equal(trade.legs[0].price, 106.5);
+  assert.equal(trade.trailing_details.trade_summary.candles_in_trade, 2);
+});
+
+test('legend candles that never cross are listed with their thresholds', async () => {
+  const noCross = await runBacktest([...WARMUP, LEGEND, QUIET, QUIET, QUIET], testConfig({ trade: { maxLookForwardCandles: 2 } }));
+  const dataEnded = await runBacktest([...WARMUP, LEGEND, QUIET], testConfig());
+
+  assert.equal(getTrades(noCross).length, 0);
+  const [untriggered] = noCross['untriggeredSignals'];
+  assert.equal(untriggered.reason, 'NO_CROSS');
+  assert.equal(untriggered.candles_checked, 2);
+  assert.ok(Math.abs(untriggered.upward_movementThreshold - LONG_ENTRY) < 1e-9);
+  assert.ok(Math.abs(untriggered.downward_movementThreshold - 100.94) < 1e-9);
+
+  assert.deepEqual(dataEnded['untriggeredSignals'].map((signal) => [signal.reason, signal.candles_checked]), [['DATA_ENDED', 1]]);
+});
+
+test('signals rejected by a filter are counted by filter and never traded', async () => {
+  // LEGEND opens at 15:00 UTC
+  const bars: Bar[] = [...WARMUP, LEGEND, QUIET, QUIET];
+  const backtester = await runBacktest(bars, testConfig({
+    strategy: { filters: { session: { enabled: true, excludedHours: [15] } } },
+  }));
+
+  assert.equal(getTrades(backtester).length, 0);
+  assert.deepEqual(backtester['filteredSignals'], { session: 1 });
+  assert.deepEqual(backtester['untriggeredSignals'], []);
+
+  // LEGEND's volume is the lookback average
+  const byVolume = await runBacktest(bars, testConfig({
+    strategy: { filters: { volume: { enabled: true, multiple: 1.5 }, session: { enabled: true, excludedHours: [15] } } },
+  }));
+  assert.deepEqual(byVolume['filteredSignals'], { volume: 1 });
+});
+
+test('trades record the baseline estimator next to the average movement', async () => {
+  const backtester = await runBacktest([...ENTRY_BARS, HOLD], testConfig({ strategy: { baseline: { estimator: 'median' } } }));
+  const [matching] = backtester.getMatchingCandles();
+
+  assert.equal(matching.baselineEstimator, 'median');
+  assert.equal(matching.baselineMovement, 1);
+  assert.equal(matching.averageMovement, 1);
+  assert.equal(matching.dynamicThreshold, 2);
+});
+
+test('loaded candles are repaired before the backtest when dataQuality.repair is on', async () => {
+  const candles = toCandles([...ENTRY_BARS, HOLD]);
+  // The fifth candle comes before the fourth and again after it
+  const messy = [...candles.slice(0, 3), candles[4], candles[3], candles[4], ...candles.slice(5)];
+  const dataSource = new MemoryDataSource();
+  dataSource.setCandles('TESTUSDT', '1h', messy);
+
+  const backtester = new Backtester('TESTUSDT', testConfig({ dataQuality: { repair: true } }), dataSource);
+  await backtester.loadCandles('1h');
+  await backtester.findMatchingCandles({ saveResults: false });
+
+  assert.deepEqual(backtester.getCandles(), candles);
+  assert.equal(backtester['dataQuality'].repairedDuplicates, 1);
+  assert.equal(backtester['dataQuality'].reorderedCandles, 1);
+  assert.equal(getTrades(backtester).length, 1);
+});
+
+test('lookback windows spanning a gap are skipped with skipGappedLookback', async () => {
+  // Every candle from the 13th on opens an hour late
+  const candles = toCandles([...ENTRY_BARS, HOLD]).map((candle, i) =>
+    i < 12 ? candle : { ...candle, openTime: candle.openTime + HOUR_MS, closeTime: candle.closeTime + HOUR_MS });
+  const run = async (skipGappedLookback: boolean) => {
+    const backtester = new Backtester('TESTUSDT', testConfig({ dataQuality: { skipGappedLookback } }), new MemoryDataSource());
+    backtester.setCandles(candles);
+    await backtester.findMatchingCandles({ saveResults: false });
+    return backtester;
+  };
+
+  const skipped = await run(true);
+  assert.equal(getTrades(skipped).length, 0);
+  // From LEGEND, the first candle checked, to the end
+  assert.equal(skipped['dataQuality'].gappedLookbackSkips, candles.length - 15);
+
+  assert.equal(getTrades(await run(false)).length, 1);
+});
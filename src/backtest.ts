@@ -1,5 +1,4 @@
 import fs from 'fs';
-import csv from 'csv-parser';
 import path from 'path';
 import moment from 'moment';
 import * as math from 'mathjs';
@@ -12,14 +11,138 @@ import {
   BalanceUpdate,
   TradeExit,
   TradeDetailsResult,
+  TradeCosts,
+  IntrabarResolution,
+  PartialExit,
+  TradeExitType,
+  TradeLeg,
+  UntriggeredSignal,
+  IntrabarPolicy,
 } from './interfaces';
-import config, { TradingConfig } from './config';
+import config, { TradingConfig, AVAILABLE_TIMEFRAMES } from './config';
+import { CostModel, FillCandle, combineTradeCosts } from './costs';
+import { calculateDrawdown, calculateMetrics, PerformanceMetrics } from './metrics';
+import { saveHtmlReport } from './html-report';
+import { IntrabarResolver } from './intrabar';
+import { findIndexAtOrAfter } from './kline-files';
+import { createMarketDataSource, MarketDataSource, Timeframe } from './market-data';
+import { Logger } from './logger';
+import { CandleSeries } from './candle-series';
+import { repairCandles } from './data-audit';
+import { SignalFilterName, SignalFilters, SIGNAL_FILTER_MESSAGES } from './signal-filters';
+import { createStrategy, Strategy, StrategyContext, StrategyEntry, StrategyPosition, StrategySignal } from './strategies';
+import {
+  ContractSpec,
+  MarginDetails,
+  calculateMarginDetails,
+  calculateRemainingMargin,
+  getContractSpec,
+  getNotional,
+  getPositionPnl,
+  getSizeForNotional,
+} from './margin';
+
+type SkipReason = 'position_open' | 'max_positions' | 'same_direction' | 'opposite_direction' | 'no_balance';
+
+const SKIP_MESSAGES: Record<SkipReason, string> = {
+  position_open: 'a position is already open',
+  max_positions: 'maximum open positions reached',
+  same_direction: 'a position in the same direction is already open',
+  opposite_direction: 'a position in the opposite direction is open',
+  no_balance: 'no balance left to size a position',
+};
+
+interface DirectionSummary {
+  total_trades: number;
+  profitable_trades: number;
+  total_pnl: string; // Formatted with the settlement currency
+}
+
+// The <timeframe>_results.json file written by saveResults
+export interface BacktestResultFile {
+  config: {
+    symbol: string;
+    threshold: number;
+    num_previous_candles: number;
+    initial_balance: number;
+    effective_config: TradingConfig;
+  };
+  trade_performance: {
+    total_trades: number;
+    profitable_trades: number;
+    unprofitable_trades: number;
+    win_rate: string;
+    signals: {
+      legend_candles: number;
+      traded: number;
+      filtered: number;
+      skipped: number;
+      untriggered: number;
+    };
+    signal_filters: {
+      rejected: number;
+      by_filter: Partial<Record<SignalFilterName, number>>;
+    };
+    data_quality: {
+      repaired_duplicates: number;
+      reordered_candles: number;
+      gapped_lookback_skips: number;
+      outside_execution_data: number; // Signal candles without execution candles after them
+    };
+    by_exit_type: Record<string, number>;
+    by_direction: {
+      long: DirectionSummary;
+      short: DirectionSummary;
+    };
+    position_management: {
+      mode: TradingConfig['trade']['positions']['mode'];
+      max_positions: number;
+      allocation_percent: number;
+      skipped_signals: { total: number } & Partial<Record<SkipReason, number>>;
+      reversals: number;
+    };
+    intrabar_resolution: {
+      policy: IntrabarPolicy;
+      trades_resolved: number;
+      decided_by: Record<string, number>;
+    };
+    liquidations: {
+      count: number;
+      total_loss: number;
+      trades: number[];
+    };
+    costs: {
+      total_fees: number;
+      total_slippage: number;
+      total_funding: number;
+      total_liquidation_fees: number;
+      gross_pnl: number;
+      net_pnl: number;
+    };
+    // Missing in files saved before the metrics block existed
+    metrics?: PerformanceMetrics;
+  };
+  detailed_trades: TradeDetailsResult[];
+  untriggered_signals: UntriggeredSignal[];
+}
+
+interface TradeEntry {
+  price: number;
+  side: 'LONG' | 'SHORT';
+  size: number;
+  signal: StrategySignal;
+  marginDetails: MarginDetails;
+}
 
-interface TriggerLevel {
-  trigger: number;
-  stopLoss: number;
-  triggered: boolean;
-  hit: boolean;
+interface OpenPosition {
+  side: 'LONG' | 'SHORT';
+  entryIndex: number;
+  exitIndex: number;
+  margin: number;
+  matchingCandle: MatchingCandle;
+  // Kept so a reversal can re-run the trade with an earlier exit
+  tradeEntry: TradeEntry;
+  buildResult: (exit: TradeExit) => TradeDetailsResult;
 }
 
 export class Backtester {
@@ -27,358 +150,507 @@ export class Backtester {
   private matchingCandles: MatchingCandle[] = [];
   private currentBalance: number;
   private balanceHistory: BalanceUpdate[] = [];
+  private openPositions: OpenPosition[] = [];
+  private closedTrades: TradeDetailsResult[] = [];
+  private skippedSignals: Partial<Record<SkipReason, number>> = {};
+  private untriggeredSignals: UntriggeredSignal[] = [];
+  private filteredSignals: Partial<Record<SignalFilterName, number>> = {};
+  private reversals = 0;
+  private dataQuality = { repairedDuplicates: 0, reorderedCandles: 0, gappedLookbackSkips: 0, outsideExecutionData: 0 };
+  private costModel: CostModel;
+  private contractSpec: ContractSpec;
+  private currency: string;
+  private intrabar: IntrabarResolver;
+  private strategy: Strategy;
+  private signalFilters: SignalFilters;
+  private logger: Logger;
+  // Built by findMatchingCandles once the candles are loaded. Signals are detected on the
+  // run's candles, entries, stops and trails run on the execution candles.
+  private signalContext!: StrategyContext;
+  private strategyContext!: StrategyContext;
 
   constructor(
     private symbol: string,
-    private runConfig: TradingConfig = config
+    private runConfig: TradingConfig = config,
+    private dataSource: MarketDataSource = createMarketDataSource(runConfig)
   ) {
     this.currentBalance = runConfig.account.initialBalance;
+    this.costModel = new CostModel(runConfig);
+    this.contractSpec = getContractSpec(runConfig);
+    // COIN-M accounts hold and settle in the base coin, e.g. ETH for ETHUSD_PERP
+    this.currency = this.contractSpec.inverse ? symbol.replace(/USD.*$/, '') : 'USDT';
+    this.intrabar = new IntrabarResolver(
+      () => this.loadTimeframeCandles(runConfig.trade.intrabar.lowerTimeframe),
+      runConfig
+    );
+    this.strategy = createStrategy(runConfig);
+    this.signalFilters = new SignalFilters(runConfig);
+    this.logger = new Logger(runConfig);
   }
 
-  async loadData(csvFilePath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const startTimestamp = new Date(
-        this.runConfig.dataFetch.startDate.year,
-        this.runConfig.dataFetch.startDate.month - 1
-      ).getTime();
-
-      const endTimestamp = this.runConfig.dataFetch.endDate 
-        ? new Date(
-            this.runConfig.dataFetch.endDate.year,
-            this.runConfig.dataFetch.endDate.month - 1
-          ).getTime()
-        : new Date().getTime();
-
-      fs.createReadStream(csvFilePath)
-        .pipe(csv())
-        .on('data', (row) => {
-          const candleTimestamp = parseInt(row.open_time);
-          
-          // Only include candles within the specified date range
-          if (candleTimestamp >= startTimestamp && candleTimestamp <= endTimestamp) {
-            const candle: Candle = {
-              openTime: candleTimestamp,
-              open: parseFloat(row.open),
-              high: parseFloat(row.high),
-              low: parseFloat(row.low),
-              close: parseFloat(row.close),
-              volume: parseFloat(row.volume),
-              closeTime: parseInt(row.close_time),
-            };
-            this.candles.push(candle);
-          }
-        })
-        .on('end', () => {
-          const fileName = path.basename(csvFilePath);
-          console.log(`Loaded ${this.candles.length} candles from ${fileName} within date range ${
-            moment(startTimestamp).format('YYYY-MM-DD')} to ${
-            moment(endTimestamp).format('YYYY-MM-DD')
-          }`);
-          resolve();
-        })
-        .on('error', reject);
-    });
+
+  setCandles(candles: Candle[]): void {
+    this.candles = candles;
   }
 
-  private async processCandle(
-    currentCandle: Candle,
-    lookbackCandles: Candle[],
-    currentIndex: number
-  ): Promise<void> {
-    // Get previous candles for average calculation
-    const previousCandles = lookbackCandles.slice(
-      -this.runConfig.strategy.lookbackPeriod.candles
-    );
+  getCandles(): Candle[] {
+    return this.candles;
+  }
 
-    // Calculate current candle's movement percentage
-    const currentDiff = (Math.abs(currentCandle.close - currentCandle.open) / 
-      currentCandle.open) * 100;
+  getMatchingCandles(): MatchingCandle[] {
+    return this.matchingCandles;
+  }
 
-    // Calculate average movement of previous candles
-    const previousDiffs = previousCandles.map(
-      (candle) => Math.abs((candle.close - candle.open) / candle.open) * 100
-    );
-    const averageDiff = math.mean(previousDiffs);
-    const dynamicThreshold = this.runConfig.strategy.lookbackPeriod.threshold * averageDiff;
-
-    console.log(`
-🔍 Checking candle at ${moment(currentCandle.openTime).format('YYYY-MM-DD HH:mm:ss')}
-Movement: ${currentDiff.toFixed(2)}%
-Average Movement: ${averageDiff.toFixed(2)}%
-Dynamic Threshold: ${dynamicThreshold.toFixed(2)}%`);
-
-    if (currentDiff >= dynamicThreshold) {
-      // This is a legend candle
-      const thresholdValue = currentCandle.close * (dynamicThreshold / 100);
-      const legendCandle = {
-        timestamp: moment(currentCandle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-        close: currentCandle.close,
-        upward_movementThreshold: currentCandle.close + thresholdValue,
-        downward_movementThreshold: currentCandle.close - thresholdValue,
-        // Store the full candle data
-        candleData: {
-          open: currentCandle.open,
-          high: currentCandle.high,
-          low: currentCandle.low,
-          close: currentCandle.close,
-          volume: currentCandle.volume
-        }
-      };
+  getBalanceHistory(): BalanceUpdate[] {
+    return this.balanceHistory;
+  }
 
-      console.log(`
-✨ LEGEND CANDLE FOUND!
-Time: ${legendCandle.timestamp}
-Close: ${legendCandle.close}
-Upward Threshold: ${legendCandle.upward_movementThreshold}
-Downward Threshold: ${legendCandle.downward_movementThreshold}`);
-
-      // Check for threshold crossing
-      const threshold_crossed = await this.checkThresholdCrossing(
-        currentIndex,
-        legendCandle
-      );
+  // Candles the strategy needs before the first signal can be checked
+  getWarmupCandles(): number {
+    return this.strategy.getWarmupCandles();
+  }
 
-      if (threshold_crossed.direction !== 'NONE') {
-        // Calculate position size
-        const tradeSize = this.calculateTradeSize(threshold_crossed.entry_price);
-
-        // Check trade outcome
-        const exit = await this.checkTradeOutcome(
-          currentIndex + threshold_crossed.candles_until_cross,
-          {
-            price: threshold_crossed.entry_price,
-            side: threshold_crossed.direction as 'LONG' | 'SHORT',
-            size: tradeSize,
-            dynamicThreshold
-          }
-        );
+  // Replaces the candles with the source's candles for this symbol and timeframe
+  async loadCandles(timeframe: Timeframe): Promise<void> {
+    this.candles = this.repairCandles(await this.dataSource.loadCandles(this.symbol, timeframe), timeframe);
+  }
 
-        if (exit) {
-          const tradeResult = this.processTradeResult(
-            {
-              ...threshold_crossed,
-              direction: threshold_crossed.direction as 'LONG' | 'SHORT'
-            },
-            exit,
-            dynamicThreshold,
-            currentDiff,
-            legendCandle.candleData  // Pass the stored legend candle data
-          );
-
-          // Update balance
-          this.updateBalance(tradeResult);
-
-          // Store matching candle info with type-safe threshold_crossed
-          this.storeMatchingCandle(
-            currentCandle,
-            legendCandle,
-            {
-              ...threshold_crossed,
-              direction: threshold_crossed.direction as 'LONG' | 'SHORT'
-            },
-            tradeResult,
-            dynamicThreshold,
-            averageDiff
-          );
-        }
-      }
+  // With dataQuality.repair the candles are sorted and duplicate open times dropped
+  private repairCandles(candles: Candle[], timeframe: Timeframe): Candle[] {
+    if (!this.runConfig.dataQuality.repair) return candles;
+
+    const repaired = repairCandles(candles);
+    if (repaired.duplicates > 0 || repaired.reordered > 0) {
+      console.warn(`⚠️ Repaired ${timeframe} candles for ${this.symbol}: ` +
+        `${repaired.duplicates} duplicates dropped, ${repaired.reordered} out of order rows sorted`);
     }
+    this.dataQuality.repairedDuplicates += repaired.duplicates;
+    this.dataQuality.reorderedCandles += repaired.reordered;
+    return repaired.candles;
   }
 
-  private async checkThresholdCrossing(
-    startIndex: number,
-    legendCandle: {
-      timestamp: string;
-      close: number;
-      upward_movementThreshold: number;
-      downward_movementThreshold: number;
+  private async processCandle(signalIndex: number, executionIndex: number = signalIndex): Promise<void> {
+    const detected = this.strategy.onCandle(this.signalContext, signalIndex);
+    if (!detected) return;
+
+    const rejectedBy = this.signalFilters.checkSignal(this.signalContext.series, detected);
+    if (rejectedBy) {
+      this.rejectSignal(rejectedBy, detected.timestamp);
+      return;
     }
-  ): Promise<{
-    direction: 'LONG' | 'SHORT' | 'NONE';
-    crossed_at: string;
-    entry_price: number;
-    candles_until_cross: number;
-    entryCandleData?: {
-      open: number;
-      high: number;
-      low: number;
-      close: number;
-      volume: number;
-    };
-  }> {
-    for (let i = 1; i <= this.runConfig.trade.maxLookForwardCandles; i++) {
-      if (startIndex + i >= this.candles.length) break;
 
-      const candle = this.candles[startIndex + i];
+    // From here on the signal points at the last execution candle inside the signal candle
+    const signal: StrategySignal = { ...detected, index: executionIndex };
 
-      if (candle.high >= legendCandle.upward_movementThreshold) {
-        return {
-          direction: 'LONG',
-          crossed_at: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-          entry_price: legendCandle.upward_movementThreshold,
-          candles_until_cross: i,
-          entryCandleData: {
-            open: candle.open,
-            high: candle.high,
-            low: candle.low,
-            close: candle.close,
-            volume: candle.volume
-          }
-        };
-      }
+    // Check for threshold crossing
+    const crossing = await this.strategy.onEntrySignal(this.strategyContext, signal);
+    if (!crossing) {
+      this.recordUntriggeredSignal(signal);
+      return;
+    }
 
-      if (candle.low <= legendCandle.downward_movementThreshold) {
-        return {
-          direction: 'SHORT',
-          crossed_at: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-          entry_price: legendCandle.downward_movementThreshold,
-          candles_until_cross: i,
-          entryCandleData: {
-            open: candle.open,
-            high: candle.high,
-            low: candle.low,
-            close: candle.close,
-            volume: candle.volume
-          }
-        };
-      }
+    const side = crossing.direction;
+    const entryIndex = executionIndex + crossing.candles_until_cross;
+
+    const entryRejectedBy = this.signalFilters.checkEntry(this.strategyContext.series, crossing, entryIndex);
+    if (entryRejectedBy) {
+      this.rejectSignal(entryRejectedBy, signal.timestamp);
+      return;
     }
 
-    return {
-      direction: 'NONE',
-      crossed_at: '',
-      entry_price: 0,
-      candles_until_cross: 0
+    const skipReason = await this.makeRoomForSignal(side, entryIndex, crossing.entry_price);
+    if (skipReason) {
+      this.skipSignal(skipReason, signal.timestamp);
+      return;
+    }
+
+    const initialStop = this.strategy.onPositionOpen(
+      this.strategyContext,
+      { side, entryPrice: crossing.entry_price, entryIndex, signal }
+    ).stop;
+
+    // Calculate position size
+    const tradeSize = this.calculateTradeSize(crossing.entry_price, initialStop);
+    if (tradeSize <= 0) {
+      this.skipSignal('no_balance', signal.timestamp);
+      return;
+    }
+
+    const marginDetails = calculateMarginDetails(
+      {
+        side,
+        entryPrice: crossing.entry_price,
+        size: tradeSize,
+        accountBalance: this.currentBalance
+      },
+      this.runConfig
+    );
+
+    const tradeEntry: TradeEntry = {
+      price: crossing.entry_price,
+      side,
+      size: tradeSize,
+      signal,
+      marginDetails
     };
+
+    // Check trade outcome
+    const exit = await this.checkTradeOutcome(entryIndex, tradeEntry);
+
+    const buildResult = (tradeExit: TradeExit) => this.processTradeResult(
+      crossing,
+      tradeExit,
+      signal,
+      tradeSize,
+      marginDetails
+    );
+    const tradeResult = buildResult(exit);
+
+    this.storeMatchingCandle(signal, crossing, tradeResult);
+
+    // The balance is only updated once the loop reaches the exit candle
+    this.openPositions.push({
+      side,
+      entryIndex,
+      exitIndex: entryIndex + exit.candles_until_exit,
+      margin: marginDetails.margin,
+      matchingCandle: this.matchingCandles[this.matchingCandles.length - 1],
+      tradeEntry,
+      buildResult
+    });
   }
 
-  private calculateTriggerLevels(
-    entryPrice: number,
+  // Applies trade.positions to a new signal and returns why it was skipped, if it was
+  private async makeRoomForSignal(
     side: 'LONG' | 'SHORT',
-    dynamicThreshold: number
-  ): TriggerLevel[] {
-    const levels: TriggerLevel[] = [];
-    const thresholdValue = entryPrice * (dynamicThreshold / 100);
-
-    // Initial stop loss is always entry ± thresholdValue based on side
-    const initialLevel: TriggerLevel = {
-      trigger: entryPrice,
-      stopLoss: side === 'LONG' 
-        ? entryPrice - thresholdValue 
-        : entryPrice + thresholdValue,
-      triggered: true,  // Initial level is always triggered
-      hit: false
+    entryIndex: number,
+    entryPrice: number
+  ): Promise<SkipReason | null> {
+    const { mode, maxPositions } = this.runConfig.trade.positions;
+    if (this.openPositions.length === 0) return null;
+
+    switch (mode) {
+      case 'concurrent':
+        return this.openPositions.length >= maxPositions ? 'max_positions' : null;
+      case 'pyramid':
+        if (this.openPositions.some(p => p.side !== side)) return 'opposite_direction';
+        return this.openPositions.length >= maxPositions ? 'max_positions' : null;
+      case 'reverse':
+        if (this.openPositions.some(p => p.side === side)) return 'same_direction';
+        // Only a filled position can be closed by the new entry
+        if (this.openPositions.some(p => p.entryIndex >= entryIndex)) return 'position_open';
+
+        for (const position of this.openPositions) {
+          await this.reversePosition(position, entryIndex, entryPrice);
+        }
+        this.settlePositions(entryIndex);
+        return null;
+      case 'single':
+      default:
+        return 'position_open';
+    }
+  }
+
+  private async reversePosition(position: OpenPosition, index: number, price: number): Promise<void> {
+    const exit = await this.checkTradeOutcome(position.entryIndex, position.tradeEntry, { index, price });
+    const previous = position.matchingCandle.trade_result!;
+    position.matchingCandle.trade_result = {
+      ...position.buildResult(exit),
+      trade_Number: previous.trade_Number
     };
-    levels.push(initialLevel);
-
-    // Calculate subsequent trigger levels
-    for (let i = 1; i <= this.runConfig.trade.trailingStop.maxTriggerLevels; i++) {
-      if (side === 'LONG') {
-        const trigger = entryPrice + (thresholdValue * i);
-        const stopLoss = trigger - thresholdValue;  // Using original thresholdValue
-        
-        levels.push({
-          trigger,
-          stopLoss,
-          triggered: false,
-          hit: false
-        });
-      } else {  // SHORT
-        const trigger = entryPrice - (thresholdValue * i);
-        const stopLoss = trigger + thresholdValue;  // Using original thresholdValue
-        
-        levels.push({
-          trigger,
-          stopLoss,
-          triggered: false,
-          hit: false
-        });
-      }
+    position.exitIndex = position.entryIndex + exit.candles_until_exit;
+    this.reversals++;
+  }
+
+  // Books every position that exited up to this candle, in exit order
+  private settlePositions(index: number): void {
+    const closing = this.openPositions
+      .filter(p => p.exitIndex <= index)
+      .sort((a, b) => a.exitIndex - b.exitIndex);
+
+    for (const position of closing) {
+      const tradeResult = position.matchingCandle.trade_result!;
+      tradeResult.balance_after_trade = this.currentBalance + tradeResult.costs.net_pnl;
+      this.updateBalance(tradeResult);
+      this.closedTrades.push(tradeResult);
     }
 
-    return levels;
+    this.openPositions = this.openPositions.filter(p => p.exitIndex > index);
   }
 
-  private async checkTradeOutcome(
-    startIndex: number,
-    entry: {
-      price: number;
-      side: 'LONG' | 'SHORT';
-      size: number;
-      dynamicThreshold: number;
+  private recordUntriggeredSignal(signal: StrategySignal): void {
+    const { maxLookForwardCandles } = this.runConfig.trade;
+    const candlesChecked = Math.min(maxLookForwardCandles, this.strategyContext.candles.length - 1 - signal.index);
+
+    this.untriggeredSignals.push({
+      timestamp: signal.timestamp,
+      close: signal.candle.close,
+      movement: signal.movement,
+      dynamicThreshold: signal.dynamicThreshold,
+      upward_movementThreshold: signal.upperThreshold,
+      downward_movementThreshold: signal.lowerThreshold,
+      candles_checked: candlesChecked,
+      reason: candlesChecked < maxLookForwardCandles ? 'DATA_ENDED' : 'NO_CROSS'
+    });
+    this.logger.info(() => `No threshold crossed for legend candle at ${signal.timestamp} within ${candlesChecked} candles`);
+  }
+
+  private skipSignal(reason: SkipReason, timestamp: string): void {
+    this.skippedSignals[reason] = (this.skippedSignals[reason] || 0) + 1;
+    this.logger.info(() => `Skipping signal at ${timestamp}: ${SKIP_MESSAGES[reason]}`);
+  }
+
+  private countSkippedSignals(): number {
+    return Object.values(this.skippedSignals).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  private rejectSignal(filter: SignalFilterName, timestamp: string): void {
+    this.filteredSignals[filter] = (this.filteredSignals[filter] || 0) + 1;
+    this.logger.info(() => `Filtered signal at ${timestamp}: ${SIGNAL_FILTER_MESSAGES[filter]}`);
+  }
+
+  private countFilteredSignals(): number {
+    return Object.values(this.filteredSignals).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  private getAllocationShare(): number {
+    const { mode, maxPositions, allocationPercent } = this.runConfig.trade.positions;
+    if (mode === 'concurrent' || mode === 'pyramid') {
+      return (allocationPercent ?? 100 / maxPositions) / 100;
     }
-  ): Promise<TradeExit | null> {
-    const triggerLevels = this.calculateTriggerLevels(
-      entry.price,
-      entry.side,
-      entry.dynamicThreshold
-    );
+    return 1;
+  }
 
-    let currentStopLoss = triggerLevels[0].stopLoss;
-    let currentTriggerIndex = 1;
+  private async checkTradeOutcome(
+    startIndex: number,
+    entry: TradeEntry,
+    closeAt?: { index: number; price: number }
+  ): Promise<TradeExit> {
+    const position: StrategyPosition = {
+      side: entry.side,
+      entryPrice: entry.price,
+      entryIndex: startIndex,
+      signal: entry.signal
+    };
+    const trailingStop = this.strategy.onPositionOpen(this.strategyContext, position);
+    const { candles } = this.strategyContext;
 
     const trailingHistory: (TrailingStopUpdate & { triggerCandle?: Candle })[] = [{
-      price: currentStopLoss,
-      time: moment(this.candles[startIndex].openTime).format('YYYY-MM-DD HH:mm:ss'),
+      price: trailingStop.stop,
+      time: moment(candles[startIndex].openTime).format('YYYY-MM-DD HH:mm:ss'),
       type: 'INITIAL',
       market_price: entry.price,
       profit_at_update: 0
     }];
 
+    const resolutions: IntrabarResolution[] = [];
+    const partialExits: PartialExit[] = [];
+    const takeProfits = this.calculateTakeProfitLevels(entry);
+    let nextTarget = 0;
+    let remaining = 1;
+    // Take-profit legs leave a smaller position that is liquidated further away
+    let liquidationPrice = entry.marginDetails.liquidationPrice;
+    let realizedPnl = 0;
+    const { timeExit } = this.runConfig.trade;
+    const timeExitCandles = timeExit.enabled
+      ? timeExit.candles ?? this.runConfig.trade.maxLookForwardCandles
+      : Infinity;
+
+    const finish = (exit: TradeExit): TradeExit => ({
+      ...exit,
+      resolutions,
+      partial_exits: partialExits,
+      remaining_fraction: remaining
+    });
+
     for (let i = 1; i <= this.runConfig.trade.maxLookForwardCandles; i++) {
-      if (startIndex + i >= this.candles.length) return null;
-      const candle = this.candles[startIndex + i];
+      // Out of data, mark what is left to market at the last close
+      if (startIndex + i >= candles.length) {
+        const lastCandle = candles[candles.length - 1];
+        return finish(this.createTradeExit(lastCandle, lastCandle.close, i - 1, trailingHistory, 'OPEN_AT_END'));
+      }
+      const candle = candles[startIndex + i];
+
+      // An opposite signal closes the position at its own entry price
+      if (closeAt && startIndex + i >= closeAt.index) {
+        return finish(this.createTradeExit(candle, closeAt.price, i, trailingHistory, 'REVERSED'));
+      }
+
+      // Triggers and take-profit targets this candle reaches, and the stop they would leave behind
+      const moves = this.strategy.onPositionUpdate(this.strategyContext, position, trailingStop, candle, startIndex + i);
+      let targetsReached = 0;
+      while (nextTarget + targetsReached < takeProfits.length &&
+        this.reachesTrigger(candle, entry.side, takeProfits[nextTarget + targetsReached].price)) {
+        targetsReached++;
+      }
+      const trailedStop = moves.length > 0 ? moves[moves.length - 1].stop : trailingStop.stop;
+
+      // The candle order only matters when it also touched the stop it would trail to
+      let triggerFirst = false;
+      if ((moves.length > 0 || targetsReached > 0) &&
+          (entry.side === 'LONG' ? candle.low <= trailedStop : candle.high >= trailedStop)) {
+        const favorableLevels = [
+          ...(moves.length > 0 ? [moves[0].trigger] : []),
+          ...(targetsReached > 0 ? [takeProfits[nextTarget].price] : [])
+        ];
+        const resolved = await this.intrabar.resolveExitOrder(
+          candle,
+          entry.side,
+          trailedStop,
+          entry.side === 'LONG' ? Math.min(...favorableLevels) : Math.max(...favorableLevels)
+        );
+        triggerFirst = resolved.triggerFirst;
+        resolutions.push({
+          time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+          event: 'exit',
+          decided_by: resolved.decidedBy,
+          outcome: triggerFirst ? 'trigger before stop' : 'stop before trigger'
+        });
+      }
 
-      // Check stop loss hit
-      if (entry.side === 'LONG' && candle.low <= currentStopLoss) {
-        return this.createTradeExit(candle, currentStopLoss, i, trailingHistory);
+      if (!triggerFirst) {
+        const exit = this.checkStopExit(candle, entry, trailingStop.stop, liquidationPrice, i, trailingHistory);
+        if (exit) return finish(exit);
       }
-      if (entry.side === 'SHORT' && candle.high >= currentStopLoss) {
-        return this.createTradeExit(candle, currentStopLoss, i, trailingHistory);
+
+      // Apply the trails
+      trailingStop.apply(candle, moves);
+      for (const move of moves) {
+        trailingHistory.push({
+          price: move.stop,
+          time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+          type: entry.side === 'LONG' ? 'TRAIL_UP' : 'TRAIL_DOWN',
+          market_price: entry.side === 'LONG' ? candle.high : candle.low,
+          profit_at_update: ((entry.side === 'LONG' ? 1 : -1) * 
+            (move.trigger - entry.price) / entry.price) * 100,
+          triggerCandle: candle  // Store the trigger candle
+        });
       }
 
-      // Check trigger levels
-      while (currentTriggerIndex < triggerLevels.length) {
-        const nextTrigger = triggerLevels[currentTriggerIndex];
-        
-        if ((entry.side === 'LONG' && candle.high >= nextTrigger.trigger) ||
-            (entry.side === 'SHORT' && candle.low <= nextTrigger.trigger)) {
-          
-          currentStopLoss = nextTrigger.stopLoss;
-          trailingHistory.push({
-            price: currentStopLoss,
-            time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-            type: entry.side === 'LONG' ? 'TRAIL_UP' : 'TRAIL_DOWN',
-            market_price: entry.side === 'LONG' ? candle.high : candle.low,
-            profit_at_update: ((entry.side === 'LONG' ? 1 : -1) * 
-              (nextTrigger.trigger - entry.price) / entry.price) * 100,
-            triggerCandle: candle  // Store the trigger candle
-          });
-          
-          currentTriggerIndex++;
-        } else {
-          break;
+      // Scale out at each take-profit target, the last one can close the whole position
+      for (let target = 0; target < targetsReached; target++) {
+        const takeProfit = takeProfits[nextTarget++];
+        const fraction = Math.min(takeProfit.fraction, remaining);
+        if (fraction >= remaining - 1e-9) {
+          return finish(this.createTradeExit(candle, takeProfit.price, i, trailingHistory, 'TAKE_PROFIT'));
         }
+
+        partialExits.push({
+          price: takeProfit.price,
+          time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+          type: 'TAKE_PROFIT',
+          fraction,
+          candles_until_exit: i,
+          exit_candle: candle
+        });
+        remaining -= fraction;
+        realizedPnl += getPositionPnl(entry.price, takeProfit.price, entry.side, entry.size * fraction, this.contractSpec);
+        liquidationPrice = calculateRemainingMargin(
+          { side: entry.side, entryPrice: entry.price, size: entry.size * remaining, fraction: remaining, realizedPnl },
+          entry.marginDetails,
+          this.runConfig
+        ).liquidationPrice;
       }
+
+      // The trigger came first, so the rest of the candle runs against the trailed stop
+      if (triggerFirst) {
+        const exit = this.checkStopExit(candle, entry, trailingStop.stop, liquidationPrice, i, trailingHistory);
+        if (exit) return finish(exit);
+      }
+
+      if (i >= timeExitCandles) {
+        return finish(this.createTradeExit(candle, candle.close, i, trailingHistory, 'TIME_EXIT'));
+      }
+    }
+
+    // Time exits are disabled, close at the end of the look-forward window
+    const maxCandles = this.runConfig.trade.maxLookForwardCandles;
+    const lastCandle = candles[startIndex + maxCandles];
+    return finish(this.createTradeExit(lastCandle, lastCandle.close, maxCandles, trailingHistory, 'TIMEOUT'));
+  }
+
+  // Take-profit prices use the same distance unit as the trigger ladder
+  private calculateTakeProfitLevels(entry: TradeEntry): Array<{ price: number; fraction: number }> {
+    const thresholdValue = entry.price * (entry.signal.dynamicThreshold / 100);
+    const direction = entry.side === 'LONG' ? 1 : -1;
+
+    return this.runConfig.trade.takeProfit.targets.map(target => ({
+      price: entry.price + direction * target.multiple * thresholdValue,
+      fraction: target.closePercent / 100
+    }));
+  }
+
+  private reachesTrigger(candle: Candle, side: 'LONG' | 'SHORT', trigger: number): boolean {
+    return side === 'LONG' ? candle.high >= trigger : candle.low <= trigger;
+  }
+
+  private checkStopExit(
+    candle: Candle,
+    entry: TradeEntry,
+    stopLoss: number,
+    liquidation: number | null,
+    candlesUntilExit: number,
+    trailingHistory: (TrailingStopUpdate & { triggerCandle?: Candle })[]
+  ): TradeExit | null {
+    // Liquidation only comes first when it sits between the price and the stop
+    if (liquidation !== null) {
+      if (entry.side === 'LONG' && liquidation > stopLoss && candle.low <= liquidation) {
+        return this.createTradeExit(candle, liquidation, candlesUntilExit, trailingHistory, 'LIQUIDATION');
+      }
+      if (entry.side === 'SHORT' && liquidation < stopLoss && candle.high >= liquidation) {
+        return this.createTradeExit(candle, liquidation, candlesUntilExit, trailingHistory, 'LIQUIDATION');
+      }
+    }
+
+    // Check stop loss hit
+    if (entry.side === 'LONG' && candle.low <= stopLoss) {
+      return this.createTradeExit(candle, stopLoss, candlesUntilExit, trailingHistory);
+    }
+    if (entry.side === 'SHORT' && candle.high >= stopLoss) {
+      return this.createTradeExit(candle, stopLoss, candlesUntilExit, trailingHistory);
     }
 
     return null;
   }
 
+  private async loadTimeframeCandles(timeframe: Timeframe): Promise<Candle[]> {
+    try {
+      return this.repairCandles(await this.dataSource.loadCandles(this.symbol, timeframe), timeframe);
+    } catch (error) {
+      console.warn(`⚠️ Could not load ${timeframe} candles for ${this.symbol}:`, error);
+      return [];
+    }
+  }
+
   private calculatePnL(
     entry: number,
     exit: number,
     side: 'LONG' | 'SHORT',
-    size: number
+    size: number,
+    fills: {
+      entryTime: number;
+      exitTime: number;
+      entryCandle?: FillCandle;
+      exitCandle?: FillCandle;
+      exitType?: TradeExitType;
+    }
   ): {
     pnl: number;
     pnl_percentage: number;
+    costs: TradeCosts;
   } {
-    const pnl = side === 'LONG' ? exit - entry : entry - exit;
+    const costs = this.costModel.calculateTradeCosts({
+      side,
+      size,
+      entryPrice: entry,
+      exitPrice: exit,
+      ...fills
+    });
 
-    const pnl_percentage = (pnl / entry) * 100;
+    const pnl = costs.net_pnl;
+    const pnl_percentage = (pnl / getNotional(entry, size, this.contractSpec)) * 100;
 
-    return { pnl, pnl_percentage };
+    return { pnl, pnl_percentage, costs };
   }
 
   private updateBalanceAfterTrade(trade: TradeResult): void {
@@ -393,24 +665,51 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
   }
 
   private async saveResults(results: any): Promise<void> {
-    const formattedResults = {
+    const metrics = this.getMetrics();
+    const formattedResults: BacktestResultFile = {
       config: {
         symbol: this.symbol,
         threshold: this.runConfig.strategy.lookbackPeriod.threshold,
         num_previous_candles: this.runConfig.strategy.lookbackPeriod.candles,
-        initial_balance: this.runConfig.account.initialBalance
+        initial_balance: this.runConfig.account.initialBalance,
+        effective_config: this.runConfig
       },
       trade_performance: {
         total_trades: this.matchingCandles.length,
         profitable_trades: this.matchingCandles.filter(
-          c => c.trade_result && parseFloat(c.trade_result.trailing_details.trade_summary.PNL) > 0
+          c => c.trade_result && c.trade_result.costs.net_pnl > 0
         ).length,
         unprofitable_trades: this.matchingCandles.filter(
-          c => c.trade_result && parseFloat(c.trade_result.trailing_details.trade_summary.PNL) <= 0
+          c => c.trade_result && c.trade_result.costs.net_pnl <= 0
         ).length,
         win_rate: ((this.matchingCandles.filter(
-          c => c.trade_result && parseFloat(c.trade_result.trailing_details.trade_summary.PNL) > 0
+          c => c.trade_result && c.trade_result.costs.net_pnl > 0
         ).length / this.matchingCandles.length) * 100).toFixed(2) + '%',
+        // Every legend candle ends up traded, filtered, skipped by position management or untriggered
+        signals: {
+          legend_candles: this.matchingCandles.length + this.countFilteredSignals() +
+            this.countSkippedSignals() + this.untriggeredSignals.length,
+          traded: this.matchingCandles.length,
+          filtered: this.countFilteredSignals(),
+          skipped: this.countSkippedSignals(),
+          untriggered: this.untriggeredSignals.length
+        },
+        signal_filters: {
+          rejected: this.countFilteredSignals(),
+          by_filter: this.filteredSignals
+        },
+        data_quality: {
+          repaired_duplicates: this.dataQuality.repairedDuplicates,
+          reordered_candles: this.dataQuality.reorderedCandles,
+          gapped_lookback_skips: this.dataQuality.gappedLookbackSkips,
+          outside_execution_data: this.dataQuality.outsideExecutionData
+        },
+        by_exit_type: this.matchingCandles
+          .filter(c => c.trade_result !== null)
+          .reduce((counts, c) => {
+            const type = c.trade_result!.trailing_details.exit_details.exit_type;
+            return { ...counts, [type]: (counts[type] || 0) + 1 };
+          }, {} as Record<string, number>),
         by_direction: {
           long: {
             total_trades: this.matchingCandles.filter(
@@ -418,13 +717,13 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
             ).length,
             profitable_trades: this.matchingCandles.filter(
               c => c.trade_result?.entry.side === 'LONG' && 
-                parseFloat(c.trade_result.trailing_details.trade_summary.PNL) > 0
+                c.trade_result.costs.net_pnl > 0
             ).length,
             total_pnl: this.matchingCandles
               .filter(c => c.trade_result?.entry.side === 'LONG')
               .reduce((sum, trade) => 
-                sum + (trade.trade_result ? parseFloat(trade.trade_result.trailing_details.trade_summary.PNL) : 0), 0
-              ).toFixed(2) + ' USDT'
+                sum + (trade.trade_result ? trade.trade_result.costs.net_pnl : 0), 0
+              ).toFixed(this.contractSpec.inverse ? 6 : 2) + ` ${this.currency}`
           },
           short: {
             total_trades: this.matchingCandles.filter(
@@ -432,19 +731,61 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
             ).length,
             profitable_trades: this.matchingCandles.filter(
               c => c.trade_result?.entry.side === 'SHORT' && 
-                parseFloat(c.trade_result.trailing_details.trade_summary.PNL) > 0
+                c.trade_result.costs.net_pnl > 0
             ).length,
             total_pnl: this.matchingCandles
               .filter(c => c.trade_result?.entry.side === 'SHORT')
               .reduce((sum, trade) => 
-                sum + (trade.trade_result ? parseFloat(trade.trade_result.trailing_details.trade_summary.PNL) : 0), 0
-              ).toFixed(2) + ' USDT'
+                sum + (trade.trade_result ? trade.trade_result.costs.net_pnl : 0), 0
+              ).toFixed(this.contractSpec.inverse ? 6 : 2) + ` ${this.currency}`
           }
-        }
+        },
+        position_management: {
+          mode: this.runConfig.trade.positions.mode,
+          max_positions: this.runConfig.trade.positions.mode === 'concurrent' ||
+            this.runConfig.trade.positions.mode === 'pyramid' ? this.runConfig.trade.positions.maxPositions : 1,
+          allocation_percent: this.getAllocationShare() * 100,
+          skipped_signals: {
+            total: this.countSkippedSignals(),
+            ...this.skippedSignals
+          },
+          reversals: this.reversals
+        },
+        intrabar_resolution: {
+          policy: this.intrabar.policy,
+          trades_resolved: this.matchingCandles.filter(c => c.trade_result?.intrabar.needed_resolution).length,
+          decided_by: this.matchingCandles
+            .flatMap(c => c.trade_result ? c.trade_result.intrabar.resolutions : [])
+            .reduce((counts, resolution) => ({
+              ...counts,
+              [resolution.decided_by]: (counts[resolution.decided_by] || 0) + 1
+            }), {} as Record<string, number>)
+        },
+        liquidations: {
+          count: this.matchingCandles.filter(
+            c => c.trade_result?.trailing_details.exit_details.exit_type === 'LIQUIDATION'
+          ).length,
+          total_loss: this.matchingCandles
+            .filter(c => c.trade_result?.trailing_details.exit_details.exit_type === 'LIQUIDATION')
+            .reduce((sum, c) => sum + (c.trade_result ? c.trade_result.costs.net_pnl : 0), 0),
+          trades: this.matchingCandles
+            .filter(c => c.trade_result?.trailing_details.exit_details.exit_type === 'LIQUIDATION')
+            .map(c => c.trade_result!.trade_Number)
+        },
+        costs: {
+          total_fees: this.sumTradeCosts('total_fees'),
+          total_slippage: this.sumTradeCosts('slippage'),
+          total_funding: this.sumTradeCosts('funding'),
+          total_liquidation_fees: this.sumTradeCosts('liquidation_fee'),
+          gross_pnl: this.sumTradeCosts('gross_pnl'),
+          net_pnl: this.sumTradeCosts('net_pnl')
+        },
+        metrics
       },
       detailed_trades: this.matchingCandles
         .filter(c => c.trade_result !== null)
-        .map(c => c.trade_result)
+        .map(c => c.trade_result!),
+      untriggered_signals: this.untriggeredSignals
     };
 
     // Save to file
@@ -469,13 +810,47 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
     );
 
     console.log(`\nResults saved to ${resultFile}`);
+
+    if (!this.shouldWriteHtmlReport()) return;
+    await saveHtmlReport(
+      {
+        symbol: this.symbol,
+        timeframe: this.runConfig.singleBacktest?.timeframe || 'default',
+        currency: this.currency,
+        initialBalance: this.runConfig.account.initialBalance,
+        candles: this.candles,
+        matchingCandles: this.matchingCandles,
+        balanceHistory: this.balanceHistory,
+        metrics
+      },
+      path.join(symbolDir, `${this.runConfig.singleBacktest?.timeframe || 'default'}_report.html`)
+    );
+  }
+
+  private shouldWriteHtmlReport(): boolean {
+    switch (this.runConfig.report.html) {
+      case 'off':
+        return false;
+      case 'single':
+        return this.runConfig.backtestMode.type !== 'batch';
+      case 'all':
+        return true;
+    }
+  }
+
+  private sumTradeCosts(field: keyof TradeCosts): number {
+    return this.matchingCandles.reduce(
+      (sum, c) => sum + (c.trade_result ? c.trade_result.costs[field] : 0),
+      0
+    );
   }
 
   private createTradeExit(
     candle: Candle,
     stopLossPrice: number,
     candlesUntilExit: number,
-    trailingHistory: (TrailingStopUpdate & { triggerCandle?: Candle })[]
+    trailingHistory: (TrailingStopUpdate & { triggerCandle?: Candle })[],
+    type: TradeExit['type'] = 'TRAILING_STOP'
   ): TradeExit {
     trailingHistory.push({
       price: stopLossPrice,
@@ -488,57 +863,100 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
     return {
       price: stopLossPrice,
       time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-      type: 'TRAILING_STOP',
+      type,
       candles_until_exit: candlesUntilExit,
-      trailing_stops: trailingHistory
+      trailing_stops: trailingHistory,
+      exit_candle: candle
     };
   }
 
   private processTradeResult(
-    entry: {
-      direction: 'LONG' | 'SHORT';
-      crossed_at: string;
-      entry_price: number;
-      candles_until_cross: number;
-      entryCandleData?: {
-        open: number;
-        high: number;
-        low: number;
-        close: number;
-        volume: number;
-      };
-    },
+    entry: StrategyEntry,
     exit: TradeExit,
-    dynamicThreshold: number,
-    currentDiff: number,
-    legendCandleData: {
-      open: number;
-      high: number;
-      low: number;
-      close: number;
-      volume: number;
-    }
+    signal: StrategySignal,
+    size: number,
+    marginDetails: MarginDetails
   ): TradeDetailsResult {
-    const { pnl, pnl_percentage } = this.calculatePnL(
-      entry.entry_price,
-      exit.price,
-      entry.direction,
-      1
-    );
+    // Every partial exit is a leg of its own, the final exit closes whatever is left
+    let realizedPnl = 0;
+    const legs: TradeLeg[] = [
+      ...(exit.partial_exits || []),
+      {
+        price: exit.price,
+        time: exit.time,
+        type: exit.type,
+        fraction: exit.remaining_fraction ?? 1,
+        candles_until_exit: exit.candles_until_exit,
+        exit_candle: exit.exit_candle
+      }
+    ].map((leg, index) => {
+      const legSize = size * leg.fraction;
+      let { pnl, pnl_percentage, costs } = this.calculatePnL(
+        entry.entry_price,
+        leg.price,
+        entry.direction,
+        legSize,
+        {
+          entryTime: moment(entry.crossed_at, 'YYYY-MM-DD HH:mm:ss').valueOf(),
+          exitTime: moment(leg.time, 'YYYY-MM-DD HH:mm:ss').valueOf(),
+          entryCandle: entry.entryCandleData,
+          exitCandle: leg.exit_candle,
+          exitType: leg.type
+        }
+      );
+
+      if (leg.type === 'LIQUIDATION') {
+        // The exchange keeps whatever is left behind the position: its share of the margin when
+        // isolated, the whole account with what earlier legs realized when cross
+        const loss = -calculateRemainingMargin(
+          { side: entry.direction, entryPrice: entry.entry_price, size: legSize, fraction: leg.fraction, realizedPnl },
+          marginDetails,
+          this.runConfig
+        ).walletBalance;
+        costs = { ...costs, liquidation_fee: Math.max(0, costs.net_pnl - loss), net_pnl: loss };
+        pnl = loss;
+        pnl_percentage = (pnl / getNotional(entry.entry_price, legSize, this.contractSpec)) * 100;
+      }
+      realizedPnl += costs.net_pnl;
+
+      return {
+        leg: index + 1,
+        exit_type: leg.type,
+        time: leg.time,
+        price: leg.price,
+        size: legSize,
+        fraction: leg.fraction,
+        pnl,
+        pnl_percentage,
+        costs
+      };
+    });
+
+    const costs = combineTradeCosts(legs);
+    const pnl = costs.net_pnl;
+    const pnl_percentage = (pnl / getNotional(entry.entry_price, size, this.contractSpec)) * 100;
 
     // Format trails data
     const trails = exit.trailing_stops
       .filter(stop => stop.type !== 'INITIAL' && stop.type !== 'HIT')
       .map((stop: TrailingStopUpdate & { triggerCandle?: Candle }, index) => {
         // Calculate profit for this specific trail
-        const profitAtThisTrail = entry.direction === 'LONG'
-          ? stop.price - exit.trailing_stops[index].price  // For LONG: new_stop - old_stop
-          : exit.trailing_stops[index].price - stop.price; // For SHORT: old_stop - new_stop
+        const profitAtThisTrail = getPositionPnl(
+          exit.trailing_stops[index].price,  // Old stop to new stop
+          stop.price,
+          entry.direction,
+          size,
+          this.contractSpec
+        );
 
         // Calculate cumulative profit up to this trail
-        const profitSoFar = entry.direction === 'LONG'
-          ? stop.price - entry.entry_price  // For LONG: current_stop - entry
-          : entry.entry_price - stop.price; // For SHORT: entry - current_stop
+        const profitSoFar = getPositionPnl(
+          entry.entry_price,  // Entry to current stop
+          stop.price,
+          entry.direction,
+          size,
+          this.contractSpec
+        );
 
         return {
           trail_number: index + 1,
@@ -548,7 +966,7 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
           new_stop_loss: stop.price.toString(),
           stop_loss_movement: `${((Math.abs(stop.price - exit.trailing_stops[index].price) / 
             exit.trailing_stops[index].price) * 100).toFixed(2)}%`,
-          profit_at_this_trail: `${profitAtThisTrail.toFixed(2)} USDT`,  // Profit from this trail only
+          profit_at_this_trail: this.formatAmount(profitAtThisTrail),  // Profit from this trail only
           TriggerCandleDetails: stop.triggerCandle ? {
             open: stop.triggerCandle.open.toString(),
             high: stop.triggerCandle.high.toString(),
@@ -566,23 +984,28 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
             triggered_by: `trigger${(index + 1).toString().padStart(2, '0')}`,
             stoploss_distanceFrom_entry: `${((Math.abs(stop.price - entry.entry_price) / 
               entry.entry_price) * 100).toFixed(2)}%`,
-            profit_so_far: `${profitSoFar.toFixed(2)} USDT`  // Cumulative profit up to this trail
+            profit_so_far: this.formatAmount(profitSoFar)  // Cumulative profit up to this trail
           }
         };
       });
 
+    const resolutions = [
+      ...(entry.resolution ? [entry.resolution] : []),
+      ...(exit.resolutions || [])
+    ];
+
     return {
       trade_Number: this.matchingCandles.length + 1,
       timestamp: entry.crossed_at,
       LegendCandle: {
-        currentDynamicThreshold: dynamicThreshold.toString(),
-        LegendCandleDifference: currentDiff.toFixed(2),
+        currentDynamicThreshold: signal.dynamicThreshold.toString(),
+        LegendCandleDifference: signal.movement.toFixed(2),
         LegendCandleDetails: {
-          open: legendCandleData.open.toString(),
-          high: legendCandleData.high.toString(),
-          low: legendCandleData.low.toString(),
-          close: legendCandleData.close.toString(),
-          volume: legendCandleData.volume.toString()
+          open: signal.candle.open.toString(),
+          high: signal.candle.high.toString(),
+          low: signal.candle.low.toString(),
+          close: signal.candle.close.toString(),
+          volume: signal.candle.volume.toString()
         }
       },
       entry: {
@@ -622,78 +1045,277 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
         trails,
         exit_details: {
           time: exit.time,
-          exit_reason: `stoploss ${trails.length} hit`,
+          exit_type: exit.type,
+          exit_reason: this.describeExit(exit.type, trails.length),
           final_stop_loss_price: exit.price.toString(),
           total_trails_before_exit: trails.length,
           PNL_in_percent: `${pnl_percentage.toFixed(2)}%`,
-          PNL: `${pnl.toFixed(2)} USDT`
+          PNL: this.formatAmount(pnl)
         },
         trade_summary: {
           entry_price: entry.entry_price,
           initialStoploss: exit.trailing_stops[0].price.toString(),
           numberOfTrails: trails.length,
           final_stop_loss_price: exit.price.toString(),
+          candles_in_trade: exit.candles_until_exit,
           PNL_in_percent: `${pnl_percentage.toFixed(2)}%`,
-          PNL: `${pnl.toFixed(2)} USDT`
+          PNL: this.formatAmount(pnl)
         }
       },
+      position: {
+        sizing_mode: this.runConfig.account.sizing.mode,
+        size,
+        notional: getNotional(entry.entry_price, size, this.contractSpec),
+        equity_at_entry: this.currentBalance,
+        leverage: marginDetails.leverage,
+        margin_mode: marginDetails.marginMode,
+        margin: marginDetails.margin,
+        liquidation_price: marginDetails.liquidationPrice
+      },
+      legs,
+      costs,
+      intrabar: {
+        policy: this.intrabar.policy,
+        needed_resolution: resolutions.length > 0,
+        resolutions
+      },
       balance_after_trade: this.currentBalance + pnl
     };
   }
 
   private storeMatchingCandle(
-    currentCandle: Candle,
-    legendCandle: {
-      timestamp: string;
-      close: number;
-      upward_movementThreshold: number;
-      downward_movementThreshold: number;
-    },
-    threshold_crossed: {
-      direction: 'LONG' | 'SHORT';
-      crossed_at: string;
-      entry_price: number;
-      candles_until_cross: number;
-    },
-    tradeResult: TradeDetailsResult,
-    dynamicThreshold: number,
-    averageDiff: number
+    signal: StrategySignal,
+    threshold_crossed: StrategyEntry,
+    tradeResult: TradeDetailsResult
   ): void {
     this.matchingCandles.push({
-      timestamp: legendCandle.timestamp,
-      open: currentCandle.open,
-      close: currentCandle.close,
-      movement: Math.abs((currentCandle.close - currentCandle.open) / currentCandle.open) * 100,
-      dynamicThreshold,
-      averageMovement: averageDiff,
+      timestamp: signal.timestamp,
+      open: signal.candle.open,
+      close: signal.candle.close,
+      movement: signal.movement,
+      dynamicThreshold: signal.dynamicThreshold,
+      averageMovement: signal.averageMovement,
+      baselineEstimator: signal.baselineEstimator,
+      baselineMovement: signal.baselineMovement,
       numPreviousCandles: this.runConfig.strategy.lookbackPeriod.candles,
-      upward_movementThreshold: legendCandle.upward_movementThreshold,
-      downward_movementThreshold: legendCandle.downward_movementThreshold,
+      upward_movementThreshold: signal.upperThreshold,
+      downward_movementThreshold: signal.lowerThreshold,
       entry_instructions: {
-        long: `Enter LONG if price crosses above ${legendCandle.upward_movementThreshold.toFixed(2)} USDT`,
-        short: `Enter SHORT if price crosses below ${legendCandle.downward_movementThreshold.toFixed(2)} USDT`
+        long: `Enter LONG if price crosses above ${signal.upperThreshold.toFixed(2)} USDT`,
+        short: `Enter SHORT if price crosses below ${signal.lowerThreshold.toFixed(2)} USDT`
       },
       threshold_crossed,
       trade_result: tradeResult
     });
   }
 
-  async findMatchingCandles(): Promise<void> {
-    const lookbackPeriod = this.runConfig.strategy.lookbackPeriod.candles + 10;
+  // The run's own candles unless strategy.executionTimeframe names a finer timeframe
+  private async loadExecutionCandles(): Promise<Candle[]> {
+    const timeframe = this.runConfig.strategy.executionTimeframe;
+    const signalTimeframe = this.runConfig.singleBacktest?.timeframe;
+    if (!timeframe || this.candles.length === 0) return this.candles;
+
+    if (signalTimeframe && AVAILABLE_TIMEFRAMES.indexOf(timeframe) >= AVAILABLE_TIMEFRAMES.indexOf(signalTimeframe)) {
+      console.warn(`⚠️ ${timeframe} is not shorter than ${signalTimeframe}, executing on ${signalTimeframe}`);
+      return this.candles;
+    }
+
+    // Only the span the signal candles cover, so a walk-forward window stays inside its dates
+    const loaded = await this.loadTimeframeCandles(timeframe);
+    const candles = loaded.slice(
+      findIndexAtOrAfter(loaded, this.candles[0].openTime),
+      findIndexAtOrAfter(loaded, this.candles[this.candles.length - 1].closeTime)
+    );
+    if (candles.length === 0) {
+      console.warn(`⚠️ No ${timeframe} candles found for ${this.symbol}, executing on ${signalTimeframe ?? 'the signal timeframe'}`);
+      return this.candles;
+    }
+
+    console.log(`Executing on ${candles.length} ${timeframe} candles, ` +
+      `trade.maxLookForwardCandles (${this.runConfig.trade.maxLookForwardCandles}) counts ${timeframe} candles`);
+    return candles;
+  }
+
+  async findMatchingCandles(options: { saveResults?: boolean } = {}): Promise<void> {
+    const executionCandles = await this.loadExecutionCandles();
+    this.signalContext = {
+      candles: this.candles,
+      series: new CandleSeries(this.candles),
+      intrabar: this.intrabar
+    };
+    this.strategyContext = executionCandles === this.candles
+      ? this.signalContext
+      : { candles: executionCandles, series: new CandleSeries(executionCandles), intrabar: this.intrabar };
+
+    const lookback = this.strategy.getWarmupCandles();
+    const skipGaps = this.runConfig.dataQuality.skipGappedLookback;
+    const lastExecutionClose = executionCandles[executionCandles.length - 1]?.closeTime ?? Infinity;
+    for (let i = lookback; i < this.candles.length; i++) {
+      // The signal candle has closed once the next execution candle opens
+      const executionIndex = executionCandles === this.candles
+        ? i
+        : findIndexAtOrAfter(executionCandles, this.candles[i].closeTime) - 1;
+
+      // Signal candles closing before the execution data starts or after it ends
+      // have no execution candles to search
+      if (executionIndex < 0 || this.candles[i].closeTime > lastExecutionClose) {
+        this.dataQuality.outsideExecutionData++;
+        continue;
+      }
+      this.settlePositions(executionIndex);
+
+      if (skipGaps && this.signalContext.series.hasGap(i - lookback, i)) {
+        this.dataQuality.gappedLookbackSkips++;
+        this.logger.debug(() => `Skipping ${moment(this.candles[i].openTime).format('YYYY-MM-DD HH:mm:ss')}, lookback spans a gap`);
+        continue;
+      }
+      await this.processCandle(i, executionIndex);
+    }
+    if (this.dataQuality.outsideExecutionData > 0) {
+      console.warn(`⚠️ Skipped ${this.dataQuality.outsideExecutionData} signal candles outside the ` +
+        `${this.runConfig.strategy.executionTimeframe} data from ${moment(executionCandles[0].openTime).format('YYYY-MM-DD HH:mm')} ` +
+        `to ${moment(lastExecutionClose).format('YYYY-MM-DD HH:mm')}`);
+    }
+    if (this.dataQuality.gappedLookbackSkips > 0) {
+      console.warn(`⚠️ Skipped ${this.dataQuality.gappedLookbackSkips} candles whose lookback window spans a gap`);
+    }
+    this.settlePositions(Infinity);
+
+    if (options.saveResults !== false) {
+      await this.saveResults(this.matchingCandles);
+    }
+  }
+
+  getPerformanceSummary(): {
+    trade_count: number;
+    net_pnl: number;
+    win_rate: number;
+    max_drawdown: number;
+    max_drawdown_percent: number;
+  } {
+    const trades = this.matchingCandles.filter(c => c.trade_result !== null);
+    // The numeric PnL, trade_summary.PNL is rounded for display and loses COIN-M amounts
+    const pnls = trades.map(c => c.trade_result!.costs.net_pnl);
+
+    const drawdown = calculateDrawdown(this.balanceHistory, this.runConfig.account.initialBalance);
+
+    return {
+      trade_count: trades.length,
+      net_pnl: pnls.reduce((sum, pnl) => sum + pnl, 0),
+      win_rate: trades.length > 0 ? (pnls.filter(pnl => pnl > 0).length / trades.length) * 100 : 0,
+      max_drawdown: drawdown.max_drawdown,
+      max_drawdown_percent: drawdown.max_drawdown_percent,
+    };
+  }
+
+  getMetrics(): PerformanceMetrics {
+    const firstCandle = this.candles[0];
+    const lastCandle = this.candles[this.candles.length - 1];
+
+    return calculateMetrics({
+      initialBalance: this.runConfig.account.initialBalance,
+      balanceHistory: this.balanceHistory,
+      trades: this.matchingCandles
+        .filter(c => c.trade_result !== null)
+        .map(c => c.trade_result!),
+      timeframe: this.runConfig.singleBacktest?.timeframe || '1h',
+      startTime: firstCandle ? firstCandle.openTime : 0,
+      endTime: lastCandle ? lastCandle.closeTime : 0,
+    });
+  }
+
+  private calculateTradeSize(entryPrice: number, initialStop: number): number {
+    const { account } = this.runConfig;
+    const equity = (account.sizing.compound ? this.currentBalance : account.initialBalance) *
+      this.getAllocationShare();
+    // Margin already committed to open positions can't back a new one
+    const availableBalance = this.currentBalance -
+      this.openPositions.reduce((sum, position) => sum + position.margin, 0);
+    if (equity <= 0 || availableBalance <= 0) return 0;
+
+    let positionSize: number;
+    switch (account.sizing.mode) {
+      case 'fixed_notional':
+        positionSize = account.sizing.fixedNotional;
+        break;
+      case 'fixed_risk': {
+        // Size so that hitting the initial stop loses riskPercent of equity
+        const stopDistance = Math.abs(entryPrice - initialStop) / entryPrice;
+        const riskAmount = (equity * account.sizing.riskPercent) / 100;
+        positionSize = stopDistance > 0 ? riskAmount / stopDistance : 0;
+        break;
+      }
+      case 'kelly':
+        positionSize = equity * this.calculateKellyFraction();
+        break;
+      case 'percent_equity':
+      default:
+        positionSize = (equity * account.positionSizePercent) / 100;
+        break;
+    }
+
+    // Margin mode sizes are margin, the position itself is leveraged
+    const leverage = this.runConfig.market.type === 'futures' ? this.runConfig.market.leverage : 1;
+    if (account.sizing.mode === 'percent_equity') {
+      positionSize *= leverage;
+    }
+
+    // A position can't be worth more than the account allows at this leverage
+    positionSize = Math.min(positionSize, availableBalance * leverage);
+
+    // Convert the position value to a token quantity (linear) or contract count (COIN-M)
+    return getSizeForNotional(positionSize, entryPrice, this.contractSpec);
+  }
 
-    for (let i = lookbackPeriod; i < this.candles.length; i++) {
-      const currentCandle = this.candles[i];
-      const lookbackCandles = this.candles.slice(i - lookbackPeriod, i);
-      await this.processCandle(currentCandle, lookbackCandles, i);
+  private describeExit(type: TradeExitType, trails: number): string {
+    switch (type) {
+      case 'LIQUIDATION':
+        return 'liquidation';
+      case 'REVERSED':
+        return 'reversed by opposite signal';
+      case 'TAKE_PROFIT':
+        return 'final take-profit target hit';
+      case 'TIME_EXIT':
+        return `closed after ${this.runConfig.trade.timeExit.candles ?? this.runConfig.trade.maxLookForwardCandles} candles`;
+      case 'OPEN_AT_END':
+        return 'still open at the end of the data, marked to market';
+      case 'TIMEOUT':
+        return `still open after ${this.runConfig.trade.maxLookForwardCandles} candles, marked to market`;
+      case 'TRAILING_STOP':
+      default:
+        return `stoploss ${trails} hit`;
     }
+  }
 
-    await this.saveResults(this.matchingCandles);
+  private formatAmount(value: number): string {
+    return `${value.toFixed(this.contractSpec.inverse ? 6 : 2)} ${this.currency}`;
   }
 
-  private calculateTradeSize(entryPrice: number): number {
-    const positionSize =
-      (this.currentBalance * config.account.positionSizePercent) / 100;
-    return positionSize / entryPrice; // Convert USDT to token quantity
+  private calculateKellyFraction(): number {
+    const { sizing, positionSizePercent } = this.runConfig.account;
+    // Only trades closed by now, later exits aren't known yet
+    const returns = this.closedTrades
+      .map(trade => (trade.costs.net_pnl / trade.position.notional) * 100);
+
+    const wins = returns.filter(r => r > 0);
+    const losses = returns.filter(r => r <= 0);
+
+    // Not enough history for a meaningful estimate yet
+    if (returns.length < sizing.kellyMinTrades || losses.length === 0) {
+      return positionSizePercent / 100;
+    }
+    if (wins.length === 0) return 0;
+
+    const winRate = wins.length / returns.length;
+    const averageWin = math.mean(wins);
+    const averageLoss = Math.abs(math.mean(losses));
+    if (averageLoss === 0) {
+      return positionSizePercent / 100;
+    }
+
+    const payoffRatio = averageWin / averageLoss;
+    const kelly = winRate - (1 - winRate) / payoffRatio;
+    return Math.min(1, Math.max(0, kelly * sizing.kellyFraction));
   }
 
   private updateBalance(tradeResult: TradeDetailsResult): void {
@@ -702,8 +1324,8 @@ Downward Threshold: ${legendCandle.downward_movementThreshold}`);
     this.balanceHistory.push({
       timestamp: tradeResult.trailing_details.exit_details.time,
       balance: this.currentBalance,
-      trade_pnl: parseFloat(tradeResult.trailing_details.trade_summary.PNL),
-      trade_type: 'TRAILING_STOP'
+      trade_pnl: tradeResult.costs.net_pnl,
+      trade_type: tradeResult.trailing_details.exit_details.exit_type
     });
   }
 }
\ No newline at end of file
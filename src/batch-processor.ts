@@ -1,17 +1,171 @@
-import { Backtester } from './backtest';
-import { DataFetcher } from './data-fetcher';
+import { Backtester, BacktestResultFile } from './backtest';
+import { DownloadReport } from './data-fetcher';
+import { createMarketDataSource } from './market-data';
 import path from 'path';
 import fs from 'fs';
+import { calculateDrawdown } from './metrics';
+import { TradeDetailsResult } from './interfaces';
+import { toCsv, toMarkdownTable, TableColumn } from './report-format';
 import config, { TradingConfig, AVAILABLE_SYMBOLS, AVAILABLE_TIMEFRAMES } from './config';
 
+export interface LeaderboardRow {
+  rank: number;
+  symbol: string;
+  timeframe: string;
+  trade_count: number;
+  winning_trades: number;
+  net_pnl: number;
+  return_percent: number;
+  max_drawdown: number;
+  max_drawdown_percent: number;
+  win_rate: number;
+}
+
+export interface AggregateRow {
+  key: string;
+  combinations: number;
+  profitable_combinations: number;
+  trade_count: number;
+  net_pnl: number;
+  average_return_percent: number;
+  worst_drawdown_percent: number;
+  win_rate: number;
+}
+
+type SortBy = NonNullable<NonNullable<TradingConfig['backtestMode']['batchProcessing']>['sortBy']>;
+
+const LEADERBOARD_COLUMNS: TableColumn<LeaderboardRow>[] = [
+  { header: 'rank', value: (row) => row.rank },
+  { header: 'symbol', value: (row) => row.symbol },
+  { header: 'timeframe', value: (row) => row.timeframe },
+  { header: 'net_pnl', value: (row) => row.net_pnl.toFixed(2) },
+  { header: 'return_percent', value: (row) => row.return_percent.toFixed(2) },
+  { header: 'max_drawdown', value: (row) => row.max_drawdown.toFixed(2) },
+  { header: 'max_drawdown_percent', value: (row) => row.max_drawdown_percent.toFixed(2) },
+  { header: 'win_rate', value: (row) => row.win_rate.toFixed(2) },
+  { header: 'trade_count', value: (row) => row.trade_count },
+];
+
+const AGGREGATE_COLUMNS: TableColumn<AggregateRow>[] = [
+  { header: 'key', value: (row) => row.key },
+  { header: 'combinations', value: (row) => row.combinations },
+  { header: 'profitable_combinations', value: (row) => row.profitable_combinations },
+  { header: 'net_pnl', value: (row) => row.net_pnl.toFixed(2) },
+  { header: 'average_return_percent', value: (row) => row.average_return_percent.toFixed(2) },
+  { header: 'worst_drawdown_percent', value: (row) => row.worst_drawdown_percent.toFixed(2) },
+  { header: 'win_rate', value: (row) => row.win_rate.toFixed(2) },
+  { header: 'trade_count', value: (row) => row.trade_count },
+];
+
+function getResultPath(symbol: string, timeframe: string): string {
+  return path.join(__dirname, `../results/${symbol}/${timeframe}_results.json`);
+}
+
+function isBacktestResultFile(value: unknown): value is BacktestResultFile {
+  const file = value as Partial<BacktestResultFile> | null;
+  return typeof file === 'object' && file !== null &&
+    Array.isArray(file.detailed_trades) &&
+    typeof file.config?.initial_balance === 'number' &&
+    typeof file.trade_performance === 'object';
+}
+
+// Reads a saved results file, null when it is missing or holds something else
+async function readResultFile(resultPath: string): Promise<BacktestResultFile | null> {
+  if (!fs.existsSync(resultPath)) return null;
+
+  const parsed: unknown = JSON.parse(await fs.promises.readFile(resultPath, 'utf8'));
+  return isBacktestResultFile(parsed) ? parsed : null;
+}
+
+// Builds a leaderboard row from a saved <timeframe>_results.json file
+function summarizeResult(symbol: string, timeframe: string, result: BacktestResultFile): Omit<LeaderboardRow, 'rank'> {
+  const trades: TradeDetailsResult[] = result.detailed_trades;
+  const initialBalance = result.config.initial_balance;
+  const pnls = trades.map((trade) => trade.costs ? trade.costs.net_pnl : parseFloat(trade.trailing_details.trade_summary.PNL));
+  const netPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
+  const winningTrades = pnls.filter((pnl) => pnl > 0).length;
+
+  // Results saved before the metrics block existed only have per-trade balances
+  const drawdown = result.trade_performance.metrics || calculateDrawdown(
+    trades.map((trade) => ({
+      timestamp: trade.trailing_details.exit_details.time,
+      balance: trade.balance_after_trade
+    })),
+    initialBalance
+  );
+
+  return {
+    symbol,
+    timeframe,
+    trade_count: trades.length,
+    winning_trades: winningTrades,
+    net_pnl: netPnl,
+    return_percent: initialBalance > 0 ? (netPnl / initialBalance) * 100 : 0,
+    max_drawdown: drawdown.max_drawdown,
+    max_drawdown_percent: drawdown.max_drawdown_percent,
+    win_rate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0
+  };
+}
+
+function compareRows(sortBy: SortBy) {
+  return (a: Omit<LeaderboardRow, 'rank'>, b: Omit<LeaderboardRow, 'rank'>): number => {
+    let difference = 0;
+    switch (sortBy) {
+      case 'net_pnl':
+        difference = b.net_pnl - a.net_pnl;
+        break;
+      case 'return_percent':
+        difference = b.return_percent - a.return_percent;
+        break;
+      case 'max_drawdown':
+        difference = a.max_drawdown_percent - b.max_drawdown_percent;
+        break;
+      case 'win_rate':
+        difference = b.win_rate - a.win_rate;
+        break;
+      case 'trade_count':
+        difference = b.trade_count - a.trade_count;
+        break;
+    }
+    return difference !== 0 ? difference : b.net_pnl - a.net_pnl;
+  };
+}
+
+function aggregateRows(rows: LeaderboardRow[], keyOf: (row: LeaderboardRow) => string): AggregateRow[] {
+  const groups = new Map<string, LeaderboardRow[]>();
+  for (const row of rows) {
+    groups.set(keyOf(row), [...(groups.get(keyOf(row)) || []), row]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const tradeCount = group.reduce((sum, row) => sum + row.trade_count, 0);
+      const winningTrades = group.reduce((sum, row) => sum + row.winning_trades, 0);
+      return {
+        key,
+        combinations: group.length,
+        profitable_combinations: group.filter((row) => row.net_pnl > 0).length,
+        trade_count: tradeCount,
+        net_pnl: group.reduce((sum, row) => sum + row.net_pnl, 0),
+        average_return_percent: group.reduce((sum, row) => sum + row.return_percent, 0) / group.length,
+        worst_drawdown_percent: Math.max(...group.map((row) => row.max_drawdown_percent)),
+        // Pooled over all trades so pairs with few trades don't skew the rate
+        win_rate: tradeCount > 0 ? (winningTrades / tradeCount) * 100 : 0
+      };
+    })
+    .sort((a, b) => b.net_pnl - a.net_pnl);
+}
+
 export class BatchProcessor {
   private symbols = AVAILABLE_SYMBOLS;
   private timeframes = AVAILABLE_TIMEFRAMES;
   private completedBacktests: Set<string> = new Set();
+  private downloadReports: DownloadReport[] = [];
 
   constructor(
     private useParallel: boolean = false,
-    private concurrencyLimit: number = 5
+    private concurrencyLimit: number = 5,
+    private runConfig: TradingConfig = config
   ) {}
 
   private async downloadData(
@@ -22,15 +176,15 @@ export class BatchProcessor {
       console.log(`\n=== Downloading data for ${symbol} - ${timeframe} ===`);
       
       const runConfig: TradingConfig = {
-        ...config,
+        ...this.runConfig,
         singleBacktest: {
           symbol,
           timeframe
         }
       };
 
-      const dataFetcher = new DataFetcher(symbol, runConfig);
-      await dataFetcher.fetchHistoricalData();
+      const report = await createMarketDataSource(runConfig).prepare(symbol, timeframe);
+      if (report) this.downloadReports.push(report);
       
       console.log(`✅ Downloaded data for ${symbol} - ${timeframe}`);
     } catch (error) {
@@ -47,7 +201,8 @@ export class BatchProcessor {
       console.log(`\n=== Running backtest for ${symbol} - ${timeframe} ===`);
       
       const runConfig: TradingConfig = {
-        ...config,
+        ...this.runConfig,
+        backtestMode: { ...this.runConfig.backtestMode, type: 'batch' },
         singleBacktest: {
           symbol,
           timeframe
@@ -55,26 +210,17 @@ export class BatchProcessor {
       };
 
       const backtester = new Backtester(symbol, runConfig);
-      const csvFiles = await this.getAllCsvFiles(symbol, timeframe);
+      await backtester.loadCandles(timeframe);
 
-      if (csvFiles.length === 0) {
-        console.log(`No CSV files found for ${symbol} - ${timeframe}`);
+      if (backtester.getCandles().length === 0) {
+        console.log(`No candles found for ${symbol} - ${timeframe}`);
         return;
       }
 
-      console.log(`Loading ${csvFiles.length} CSV files...`);
-      for (const csvFile of csvFiles) {
-        await backtester.loadData(csvFile);
-      }
-
       await backtester.findMatchingCandles();
       
       // Verify results were saved
-      const resultPath = path.join(
-        __dirname, 
-        `../results/${symbol}/${timeframe}_results.json`
-      );
-      
+      const resultPath = getResultPath(symbol, timeframe);
       if (fs.existsSync(resultPath)) {
         this.completedBacktests.add(`${symbol}-${timeframe}`);
         console.log(`✅ Completed backtest for ${symbol} - ${timeframe}`);
@@ -121,6 +267,15 @@ export class BatchProcessor {
     }
 
     console.log('\n✅ All data downloads completed');
+
+    // Months a rerun would try again, already downloaded months are kept
+    const incomplete = this.downloadReports.filter(report => report.missing.length > 0);
+    if (incomplete.length > 0) {
+      console.log(`\n⚠️ ${incomplete.length} pairs still have missing months:`);
+      for (const report of incomplete) {
+        console.log(`  ${report.symbol} - ${report.timeframe}: ${report.missing.map(m => m.month.slice(-7)).join(', ')}`);
+      }
+    }
   }
 
   private async runAllBacktests(): Promise<void> {
@@ -174,16 +329,25 @@ export class BatchProcessor {
     console.log('\nBatch processing complete!');
   }
 
-  private async getAllCsvFiles(symbol: string, timeframe: string): Promise<string[]> {
-    const klineDir = path.join(
-      __dirname, 
-      `../kline/${symbol}/${timeframe}/csv`
-    );
-    const files = await fs.promises.readdir(klineDir);
-    return files
-      .filter((file) => file.endsWith('.csv'))
-      .sort()
-      .map((file) => path.join(klineDir, file));
+  async collectExistingResults(): Promise<void> {
+    for (const symbol of this.symbols) {
+      for (const timeframe of this.timeframes) {
+        const resultPath = getResultPath(symbol, timeframe);
+        if (!fs.existsSync(resultPath)) continue;
+
+        try {
+          if (await readResultFile(resultPath)) {
+            this.completedBacktests.add(`${symbol}-${timeframe}`);
+          } else {
+            console.warn(`⚠️ Ignoring ${resultPath}, it isn't a backtest results file`);
+          }
+        } catch (error) {
+          console.warn(`⚠️ Could not read ${resultPath}:`, error);
+        }
+      }
+    }
+
+    console.log(`Found ${this.completedBacktests.size} existing backtest results`);
   }
 
   async generateSummaryReport(): Promise<void> {
@@ -193,13 +357,7 @@ export class BatchProcessor {
       await fs.promises.mkdir(summaryDir, { recursive: true });
     }
 
-    const summary = {
-      timestamp: new Date().toISOString(),
-      total_combinations: this.symbols.length * this.timeframes.length,
-      completed_backtests: this.completedBacktests.size,
-      results: [] as any[]
-    };
-
+    const rows: Omit<LeaderboardRow, 'rank'>[] = [];
     for (const symbol of this.symbols) {
       for (const timeframe of this.timeframes) {
         const backTestId = `${symbol}-${timeframe}`;
@@ -208,20 +366,13 @@ export class BatchProcessor {
           continue;
         }
 
-        const resultPath = path.join(
-          __dirname, 
-          `../results/${symbol}/${timeframe}_results.json`
-        );
-
         try {
-          const result = JSON.parse(await fs.promises.readFile(resultPath, 'utf8'));
-          summary.results.push({
-            symbol,
-            timeframe,
-            trade_count: result.trade_performance.total_trades,
-            win_rate: result.trade_performance.win_rate,
-            total_return: result.trade_performance.total_return
-          });
+          const result = await readResultFile(getResultPath(symbol, timeframe));
+          if (!result) {
+            console.log(`Skipping ${backTestId} - no results file`);
+            continue;
+          }
+          rows.push(summarizeResult(symbol, timeframe, result));
           console.log(`✅ Added results for ${symbol} - ${timeframe} to summary`);
         } catch (error) {
           console.error(`Error reading results for ${symbol} - ${timeframe}:`, error);
@@ -229,10 +380,55 @@ export class BatchProcessor {
       }
     }
 
+    const sortBy = this.runConfig.backtestMode.batchProcessing?.sortBy || 'net_pnl';
+    const leaderboard = rows
+      .sort(compareRows(sortBy))
+      .map((row, index) => ({ rank: index + 1, ...row }));
+    const bySymbol = aggregateRows(leaderboard, (row) => row.symbol);
+    const byTimeframe = aggregateRows(leaderboard, (row) => row.timeframe);
+
+    const summary = {
+      timestamp: new Date().toISOString(),
+      total_combinations: this.symbols.length * this.timeframes.length,
+      completed_backtests: this.completedBacktests.size,
+      sort_by: sortBy,
+      config: this.runConfig,
+      leaderboard,
+      by_symbol: bySymbol,
+      by_timeframe: byTimeframe
+    };
+
     // Save summary report
-    const summaryPath = path.join(summaryDir, `batch_summary_${Date.now()}.json`);
+    const baseName = `batch_summary_${Date.now()}`;
+    const summaryPath = path.join(summaryDir, `${baseName}.json`);
+    const csvPath = path.join(summaryDir, `${baseName}.csv`);
+    const markdownPath = path.join(summaryDir, `${baseName}.md`);
+
     await fs.promises.writeFile(summaryPath, JSON.stringify(summary, null, 2));
-    console.log(`\n✅ Summary report saved to ${summaryPath}`);
+    await fs.promises.writeFile(csvPath, toCsv(leaderboard, LEADERBOARD_COLUMNS));
+    await fs.promises.writeFile(
+      markdownPath,
+      [
+        `# Batch Summary (${summary.timestamp})`,
+        `Completed ${summary.completed_backtests} out of ${summary.total_combinations} backtests, sorted by ${sortBy}.`,
+        '## Leaderboard',
+        toMarkdownTable(leaderboard, LEADERBOARD_COLUMNS).trim(),
+        '## By Symbol',
+        toMarkdownTable(bySymbol, AGGREGATE_COLUMNS).trim(),
+        '## By Timeframe',
+        toMarkdownTable(byTimeframe, AGGREGATE_COLUMNS).trim()
+      ].join('\n\n') + '\n'
+    );
+
+    if (leaderboard.length > 0) {
+      console.log(`\nTop results (sorted by ${sortBy}):`);
+      console.table(leaderboard.slice(0, 10).map((row) => LEADERBOARD_COLUMNS.reduce(
+        (table, column) => ({ ...table, [column.header]: column.value(row) }),
+        {} as Record<string, string | number>
+      )));
+    }
+
+    console.log(`\n✅ Summary report saved to ${summaryPath}, ${csvPath} and ${markdownPath}`);
     console.log(`Completed ${summary.completed_backtests} out of ${summary.total_combinations} backtests`);
   }
-} 
\ No newline at end of file
+}
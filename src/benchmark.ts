@@ -0,0 +1,108 @@
+import config, { TradingConfig } from './config';
+import { Backtester } from './backtest';
+import { Candle } from './interfaces';
+import { MemoryDataSource } from './market-data';
+import { CliUsageError, EXIT_CODES, getUsage, parseCliArgs } from './cli';
+
+const DEFAULT_CANDLES = 1_000_000;
+const CANDLE_MS = 60_000;
+
+// mulberry32, the same seed always gives the same series
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random walk of 1m candles with an occasional outsized body so legend candles appear
+export function generateCandles(count: number, seed = 42): Candle[] {
+  const random = createRandom(seed);
+  const candles: Candle[] = [];
+  const start = Date.UTC(2020, 0, 1);
+  let price = 2000;
+
+  for (let i = 0; i < count; i++) {
+    const spike = random() < 0.002 ? 8 : 1;
+    const open = price;
+    const close = Math.max(1, open * (1 + (random() - 0.5) * 0.004 * spike));
+    const high = Math.max(open, close) * (1 + random() * 0.001);
+    const low = Math.min(open, close) * (1 - random() * 0.001);
+    const openTime = start + i * CANDLE_MS;
+
+    candles.push({ openTime, open, high, low, close, volume: 100 + random() * 900, closeTime: openTime + CANDLE_MS - 1 });
+    price = close;
+  }
+
+  return candles;
+}
+
+function takeCandleCount(argv: string[]): { count: number; rest: string[] } {
+  const index = argv.indexOf('--candles');
+  if (index === -1) return { count: DEFAULT_CANDLES, rest: argv };
+
+  const count = Number(argv[index + 1]);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new CliUsageError(`--candles expects a positive integer, got "${argv[index + 1]}"`);
+  }
+  return { count, rest: [...argv.slice(0, index), ...argv.slice(index + 2)] };
+}
+
+async function main(argv: string[]): Promise<number> {
+  let count: number;
+  let runConfig: TradingConfig;
+  try {
+    const parsed = takeCandleCount(argv);
+    count = parsed.count;
+    // Quiet unless asked otherwise, logging would dominate the timing
+    runConfig = parseCliArgs(['backtest', ...parsed.rest], { ...config, logging: { level: 'quiet' } }).runConfig;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`Error: ${error.message}\n`);
+      console.error(`Benchmark usage: npm run benchmark -- [--candles <N>] [options]\n`);
+      console.error(getUsage());
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+
+  console.log(`Generating ${count.toLocaleString()} synthetic candles...`);
+  const candles = generateCandles(count);
+
+  const dataSource = new MemoryDataSource();
+  dataSource.setCandles('SYNTHETIC', '1m', candles);
+  const backtester = new Backtester('SYNTHETIC', runConfig, dataSource);
+  await backtester.loadCandles('1m');
+
+  const started = process.hrtime.bigint();
+  await backtester.findMatchingCandles({ saveResults: false });
+  const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+
+  const summary = backtester.getPerformanceSummary();
+  const heapMb = process.memoryUsage().heapUsed / 1024 / 1024;
+
+  console.log(`
+⏱️  Benchmark
+Candles: ${count.toLocaleString()}
+Baseline: ${runConfig.strategy.baseline.estimator}, lookback ${runConfig.strategy.lookbackPeriod.candles}
+Legend candles: ${backtester.getMatchingCandles().length}
+Trades: ${summary.trade_count}
+Time: ${seconds.toFixed(2)}s
+Throughput: ${Math.round(count / seconds).toLocaleString()} candles/s
+Heap used: ${heapMb.toFixed(0)} MB`);
+
+  return EXIT_CODES.success;
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    console.error('Benchmark failed:', error);
+    process.exitCode = EXIT_CODES.failure;
+  });
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import moment from 'moment';
+import config, { TradingConfig } from './config';
+import { Candle } from './interfaces';
+import { DataFetcher, DownloadReport } from './data-fetcher';
+import { getAllCsvFiles, getKlineCsvDir, parseKlineCsv } from './kline-files';
+import { getDateRange, MarketDataSource, Timeframe } from './market-data';
+
+// The public Binance archive, downloaded into kline/<symbol>/<timeframe>/csv
+export class BinanceArchiveSource implements MarketDataSource {
+  readonly name = 'binance';
+
+  constructor(private runConfig: TradingConfig = config) {}
+
+  async prepare(symbol: string, timeframe: Timeframe): Promise<DownloadReport | null> {
+    const dataFetcher = new DataFetcher(symbol, {
+      ...this.runConfig,
+      singleBacktest: { symbol, timeframe }
+    });
+    return dataFetcher.fetchHistoricalData();
+  }
+
+  async loadCandles(symbol: string, timeframe: Timeframe): Promise<Candle[]> {
+    if (!fs.existsSync(getKlineCsvDir(symbol, timeframe))) return [];
+
+    const csvFiles = await getAllCsvFiles(symbol, timeframe);
+    const candles: Candle[] = [];
+
+    console.log(`Loading ${csvFiles.length} CSV files...`);
+    for (const csvFile of csvFiles) {
+      await this.loadFile(csvFile, candles);
+    }
+    return candles;
+  }
+
+  private async loadFile(csvFilePath: string, candles: Candle[]): Promise<void> {
+    const { startTime, endTime } = getDateRange(this.runConfig);
+    const { candles: fileCandles, report } = await parseKlineCsv(csvFilePath);
+
+    // Only include candles within the specified date range
+    for (const candle of fileCandles) {
+      if (candle.openTime >= startTime && candle.openTime <= endTime) {
+        candles.push(candle);
+      }
+    }
+
+    if (report.rejected.length > 0) {
+      const [first] = report.rejected;
+      console.warn(`⚠️ Rejected ${report.rejected.length} of ${report.rows} rows in ${report.file}` +
+        ` (line ${first.line}: ${first.reason})`);
+    }
+    console.log(`Loaded ${candles.length} candles from ${path.basename(csvFilePath)} within date range ${
+      moment(startTime).format('YYYY-MM-DD')} to ${
+      moment(endTime).format('YYYY-MM-DD')
+    }${report.hasHeader ? '' : ', no header row'}${report.timestampUnit === 'us' ? ', microsecond timestamps' : ''}`);
+  }
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as math from 'mathjs';
+import { CandleSeries, SeriesField } from './candle-series';
+import { Candle } from './interfaces';
+
+const HOUR_MS = 60 * 60 * 1000;
+const LOOKBACK = 24;
+
+// A reproducible random walk, so failures can be replayed
+function randomCandles(count: number, seed = 42): Candle[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+
+  const candles: Candle[] = [];
+  let close = 100;
+  for (let i = 0; i < count; i++) {
+    const open = close;
+    close = open * (1 + (random() - 0.5) * 0.04);
+    candles.push({
+      openTime: i * HOUR_MS,
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.01),
+      low: Math.min(open, close) * (1 - random() * 0.01),
+      close,
+      volume: random() * 1000,
+      closeTime: (i + 1) * HOUR_MS - 1,
+    });
+  }
+  return candles;
+}
+
+function assertClose(actual: number, expected: number, message?: string): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9 * Math.max(1, Math.abs(expected)), message ?? `expected ${expected}, got ${actual}`);
+}
+
+test('the rolling body mean matches slicing and averaging every lookback window', () => {
+  const candles = randomCandles(500);
+  const series = new CandleSeries(candles);
+
+  for (let i = LOOKBACK; i < candles.length; i++) {
+    // What findMatchingCandles used to do for every candle
+    const lookbackCandles = candles.slice(i - LOOKBACK, i);
+    const bodies = lookbackCandles.map((candle) => Math.abs((candle.close - candle.open) / candle.open) * 100);
+    const averageDiff = math.mean(bodies);
+
+    assertClose(series.mean('body_percent', i - LOOKBACK, i), averageDiff, `window ending at ${i}`);
+    assertClose(series.value('body_percent', i), Math.abs((candles[i].close - candles[i].open) / candles[i].open) * 100);
+  }
+});
+
+test('window sums match adding up the values for every field', () => {
+  const series = new CandleSeries(randomCandles(200, 7));
+  const fields: SeriesField[] = ['body_percent', 'volume', 'close', 'true_range_percent', 'return_percent', 'return_percent_squared', 'gap'];
+
+  for (const field of fields) {
+    for (const [from, to] of [[0, 200], [0, 1], [13, 37], [150, 199], [50, 50]]) {
+      const expected = series.values(field, from, to).reduce((sum, value) => sum + value, 0);
+      assertClose(series.sum(field, from, to), expected, `${field} from ${from} to ${to}`);
+    }
+  }
+});
+
+test('empty windows have a mean of 0', () => {
+  const series = new CandleSeries(randomCandles(10));
+
+  assert.equal(series.mean('body_percent', 4, 4), 0);
+  assert.equal(new CandleSeries([]).mean('volume', 0, 0), 0);
+});
+
+test('true range and returns use the previous close', () => {
+  const series = new CandleSeries([
+    { openTime: 0, open: 100, high: 104, low: 98, close: 102, volume: 1, closeTime: HOUR_MS - 1 },
+    { openTime: HOUR_MS, open: 105, high: 106, low: 104, close: 104, volume: 1, closeTime: 2 * HOUR_MS - 1 },
+  ]);
+
+  // The first candle only has its own range and no return
+  assertClose(series.value('true_range_percent', 0), 6);
+  assert.equal(series.value('return_percent', 0), 0);
+  // The gap up from 102 to 106 is wider than the 2 range
+  assertClose(series.value('true_range_percent', 1), (4 / 102) * 100);
+  assertClose(series.value('return_percent', 1), (2 / 102) * 100);
+});
+
+test('gaps are found between candles that are not back to back', () => {
+  const candles = randomCandles(10);
+  // Candle 6 opens an hour late
+  for (let i = 6; i < candles.length; i++) {
+    candles[i] = { ...candles[i], openTime: candles[i].openTime + HOUR_MS, closeTime: candles[i].closeTime + HOUR_MS };
+  }
+  const series = new CandleSeries(candles);
+
+  assert.equal(series.value('gap', 6), 1);
+  assert.equal(series.hasGap(0, 5), false);
+  assert.equal(series.hasGap(5, 6), true);
+  assert.equal(series.hasGap(2, 9), true);
+  assert.equal(series.hasGap(6, 9), false);
+});
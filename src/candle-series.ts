@@ -0,0 +1,106 @@
+import { Candle } from './interfaces';
+
+// Per-candle values whose window sums are kept as prefix sums
+export type SeriesField =
+  | 'body_percent' // |close - open| / open
+  | 'volume'
+  | 'close'
+  | 'true_range_percent' // Against the previous close, the first candle uses its own range
+  | 'return_percent' // Close to close, 0 for the first candle
+  | 'return_percent_squared'
+  | 'gap'; // 1 when the candle opens later than the previous one closed
+
+// Column-wise copy of the candles. Window sums over any field are O(1) once its
+// prefix sums are built, which happens on first use.
+export class CandleSeries {
+  readonly length: number;
+  readonly openTime: Float64Array;
+  readonly open: Float64Array;
+  readonly high: Float64Array;
+  readonly low: Float64Array;
+  readonly close: Float64Array;
+  readonly volume: Float64Array;
+  readonly closeTime: Float64Array;
+  private prefixSums = new Map<SeriesField, Float64Array>();
+
+  constructor(candles: Candle[]) {
+    this.length = candles.length;
+    this.openTime = new Float64Array(this.length);
+    this.open = new Float64Array(this.length);
+    this.high = new Float64Array(this.length);
+    this.low = new Float64Array(this.length);
+    this.close = new Float64Array(this.length);
+    this.volume = new Float64Array(this.length);
+    this.closeTime = new Float64Array(this.length);
+
+    candles.forEach((candle, i) => {
+      this.openTime[i] = candle.openTime;
+      this.open[i] = candle.open;
+      this.high[i] = candle.high;
+      this.low[i] = candle.low;
+      this.close[i] = candle.close;
+      this.volume[i] = candle.volume;
+      this.closeTime[i] = candle.closeTime;
+    });
+  }
+
+  value(field: SeriesField, i: number): number {
+    switch (field) {
+      case 'body_percent':
+        return Math.abs((this.close[i] - this.open[i]) / this.open[i]) * 100;
+      case 'volume':
+        return this.volume[i];
+      case 'close':
+        return this.close[i];
+      case 'true_range_percent': {
+        if (i === 0) return ((this.high[i] - this.low[i]) / this.open[i]) * 100;
+        const previousClose = this.close[i - 1];
+        const trueRange = Math.max(
+          this.high[i] - this.low[i],
+          Math.abs(this.high[i] - previousClose),
+          Math.abs(this.low[i] - previousClose)
+        );
+        return (trueRange / previousClose) * 100;
+      }
+      case 'return_percent':
+        return i === 0 ? 0 : ((this.close[i] - this.close[i - 1]) / this.close[i - 1]) * 100;
+      case 'return_percent_squared':
+        return Math.pow(this.value('return_percent', i), 2);
+      case 'gap':
+        return i > 0 && this.openTime[i] > this.closeTime[i - 1] + 1 ? 1 : 0;
+    }
+  }
+
+  // Sum over the candles from `from` up to, not including, `to`
+  sum(field: SeriesField, from: number, to: number): number {
+    const prefix = this.getPrefixSums(field);
+    return prefix[to] - prefix[from];
+  }
+
+  mean(field: SeriesField, from: number, to: number): number {
+    return to > from ? this.sum(field, from, to) / (to - from) : 0;
+  }
+
+  // Whether the candles from `from` through `to` miss any candle in between
+  hasGap(from: number, to: number): boolean {
+    return to > from && this.sum('gap', from + 1, to + 1) > 0;
+  }
+
+  values(field: SeriesField, from: number, to: number): number[] {
+    const values: number[] = [];
+    for (let i = from; i < to; i++) values.push(this.value(field, i));
+    return values;
+  }
+
+  private getPrefixSums(field: SeriesField): Float64Array {
+    let prefix = this.prefixSums.get(field);
+    if (!prefix) {
+      prefix = new Float64Array(this.length + 1);
+      for (let i = 0; i < this.length; i++) {
+        prefix[i + 1] = prefix[i] + this.value(field, i);
+      }
+      this.prefixSums.set(field, prefix);
+    }
+    return prefix;
+  }
+}
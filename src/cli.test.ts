@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { CliUsageError, parseCliArgs } from './cli';
+
+function withoutSingleBacktest(): TradingConfig {
+  const { singleBacktest: _singleBacktest, ...rest } = config;
+  return rest;
+}
+
+test('--timeframe keeps the configured symbol', () => {
+  const { runConfig } = parseCliArgs(['backtest', '--timeframe', '4h']);
+
+  assert.deepEqual(runConfig.singleBacktest, { symbol: config.singleBacktest!.symbol, timeframe: '4h' });
+});
+
+test('--timeframe without a symbol is accepted by commands that run every pair', () => {
+  for (const argv of [['batch', '--timeframe', '4h'], ['optimize', '--all-pairs', '--timeframe', '4h']]) {
+    const { runConfig } = parseCliArgs(argv, withoutSingleBacktest());
+    assert.equal(runConfig.singleBacktest, undefined);
+  }
+});
+
+test('--timeframe without a known symbol asks for --symbol', () => {
+  assert.throws(
+    () => parseCliArgs(['backtest', '--timeframe', '4h'], withoutSingleBacktest()),
+    (error: unknown) => error instanceof CliUsageError && /--timeframe needs --symbol/.test(error.message)
+  );
+});
+
+test('--symbol can follow --timeframe', () => {
+  const { runConfig } = parseCliArgs(['backtest', '--timeframe', '4h', '--symbol', 'solusdt'], withoutSingleBacktest());
+
+  assert.deepEqual(runConfig.singleBacktest, { symbol: 'SOLUSDT', timeframe: '4h' });
+});
@@ -0,0 +1,693 @@
+import config, {
+  TradingConfig,
+  ParameterRange,
+  AVAILABLE_TIMEFRAMES,
+  STRATEGY_NAMES,
+  TRAILING_STOP_MODELS,
+} from './config';
+import { assertValidConfig, mergeConfig, readConfigFile } from './config-loader';
+
+export const CLI_COMMANDS = ['fetch', 'backtest', 'batch', 'optimize', 'walk-forward', 'report', 'audit'] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+const MODE_COMMANDS: Record<TradingConfig['backtestMode']['type'], CliCommand> = {
+  single: 'backtest',
+  batch: 'batch',
+  optimize: 'optimize',
+  'walk-forward': 'walk-forward',
+};
+
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+} as const;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliOptions {
+  command: CliCommand;
+  runConfig: TradingConfig;
+  configFile?: string;
+  skipFetch: boolean;
+  help: boolean;
+}
+
+interface FlagDefinition {
+  value?: string; // Placeholder shown in the usage text, omitted for boolean flags
+  description: string;
+  apply: (runConfig: TradingConfig, value: string) => void;
+}
+
+function parseNumber(flag: string, value: string, { integer = false, min = 0 } = {}): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    throw new CliUsageError(`${flag} expects ${integer ? 'an integer' : 'a number'}, got "${value}"`);
+  }
+  if (parsed < min) {
+    throw new CliUsageError(`${flag} must be >= ${min}, got ${parsed}`);
+  }
+  return parsed;
+}
+
+function parseYearMonth(flag: string, value: string): { year: number; month: number } {
+  const match = value.match(/^(\d{4})-(\d{1,2})$/);
+  if (!match || parseInt(match[2]) < 1 || parseInt(match[2]) > 12) {
+    throw new CliUsageError(`${flag} expects a month in YYYY-MM format, got "${value}"`);
+  }
+  return { year: parseInt(match[1]), month: parseInt(match[2]) };
+}
+
+function parseRange(flag: string, value: string, integer: boolean): ParameterRange {
+  // "24:96:24" is an inclusive start:end:step range, "24,48,96" an explicit list
+  if (value.includes(':')) {
+    const parts = value.split(':');
+    if (parts.length !== 3) {
+      throw new CliUsageError(`${flag} expects start:end:step or a comma separated list, got "${value}"`);
+    }
+    const [start, end, step] = parts.map((part) => parseNumber(flag, part, { integer }));
+    if (step <= 0 || end < start) {
+      throw new CliUsageError(`${flag} needs a positive step and end >= start, got "${value}"`);
+    }
+    return { start, end, step };
+  }
+  return value.split(',').map((part) => parseNumber(flag, part, { integer }));
+}
+
+function getOptimizerSettings(runConfig: TradingConfig): NonNullable<TradingConfig['optimizer']> {
+  if (!runConfig.optimizer) {
+    runConfig.optimizer = {
+      lookbackCandles: [runConfig.strategy.lookbackPeriod.candles],
+      thresholds: [runConfig.strategy.lookbackPeriod.threshold],
+      maxTriggerLevels: [runConfig.trade.trailingStop.maxTriggerLevels],
+      maxLookForwardCandles: [runConfig.trade.maxLookForwardCandles],
+      rankBy: 'net_pnl',
+      allPairs: false,
+    };
+  }
+  return runConfig.optimizer;
+}
+
+function getWalkForwardSettings(runConfig: TradingConfig): NonNullable<TradingConfig['walkForward']> {
+  if (!runConfig.walkForward) {
+    runConfig.walkForward = { trainMonths: 6, testMonths: 2 };
+  }
+  return runConfig.walkForward;
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new CliUsageError(`${flag} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+const CONFIG_FLAGS: Record<string, FlagDefinition> = {
+  '--symbol': {
+    value: '<SYMBOL>',
+    description: 'Trading pair, e.g. ETHUSDT',
+    apply: (runConfig, value) => {
+      runConfig.singleBacktest = {
+        symbol: value.toUpperCase(),
+        timeframe: runConfig.singleBacktest?.timeframe ?? '1h',
+      };
+    },
+  },
+  '--timeframe': {
+    value: '<TF>',
+    description: `Candle timeframe (${AVAILABLE_TIMEFRAMES.join(', ')})`,
+    apply: (runConfig, value) => {
+      const timeframe = parseChoice('--timeframe', value, AVAILABLE_TIMEFRAMES);
+      if (runConfig.singleBacktest) {
+        runConfig.singleBacktest.timeframe = timeframe;
+      } else {
+        // The symbol has to come from --symbol, which may follow this flag
+        runConfig.singleBacktest = { symbol: '', timeframe };
+      }
+    },
+  },
+  '--strategy': {
+    value: '<NAME>',
+    description: `Signal strategy (${STRATEGY_NAMES.join(', ')})`,
+    apply: (runConfig, value) => {
+      runConfig.strategy.name = parseChoice('--strategy', value, STRATEGY_NAMES);
+    },
+  },
+  '--threshold': {
+    value: '<N>',
+    description: 'Dynamic threshold multiplier',
+    apply: (runConfig, value) => {
+      runConfig.strategy.lookbackPeriod.threshold = parseNumber('--threshold', value);
+    },
+  },
+  '--lookback': {
+    value: '<N>',
+    description: 'Number of lookback candles for the average movement',
+    apply: (runConfig, value) => {
+      runConfig.strategy.lookbackPeriod.candles = parseNumber('--lookback', value, { integer: true, min: 1 });
+    },
+  },
+  '--baseline': {
+    value: '<ESTIMATOR>',
+    description: 'Lookback candle size the threshold multiplies (mean, median, ema, atr, stddev, percentile)',
+    apply: (runConfig, value) => {
+      runConfig.strategy.baseline.estimator = parseChoice(
+        '--baseline', value, ['mean', 'median', 'ema', 'atr', 'stddev', 'percentile'] as const
+      );
+    },
+  },
+  '--baseline-percentile': {
+    value: '<P>',
+    description: 'Percentile used by --baseline percentile',
+    apply: (runConfig, value) => {
+      runConfig.strategy.baseline.percentile = parseNumber('--baseline-percentile', value);
+    },
+  },
+  '--volume-filter': {
+    value: '<MULT>',
+    description: 'Only take signals with volume of at least MULT times the lookback average',
+    apply: (runConfig, value) => {
+      runConfig.strategy.filters.volume = { enabled: true, multiple: parseNumber('--volume-filter', value, { min: 0 }) };
+    },
+  },
+  '--body-ratio': {
+    value: '<MIN>',
+    description: 'Only take signals whose body covers at least MIN (0-1) of the high-low range',
+    apply: (runConfig, value) => {
+      runConfig.strategy.filters.bodyRatio = { enabled: true, min: parseNumber('--body-ratio', value, { min: 0 }) };
+    },
+  },
+  '--trend-filter': {
+    value: '<PERIOD>',
+    description: 'Only enter LONG above and SHORT below the PERIOD moving average',
+    apply: (runConfig, value) => {
+      runConfig.strategy.filters.trend = {
+        enabled: true,
+        period: parseNumber('--trend-filter', value, { integer: true, min: 1 }),
+      };
+    },
+  },
+  '--min-average-movement': {
+    value: '<PCT>',
+    description: 'Skip signals when the lookback average movement is below PCT',
+    apply: (runConfig, value) => {
+      runConfig.strategy.filters.minAverageMovement = {
+        enabled: true,
+        percent: parseNumber('--min-average-movement', value, { min: 0 }),
+      };
+    },
+  },
+  '--exclude-hours': {
+    value: '<H,H>',
+    description: 'Skip signals on these UTC hours',
+    apply: (runConfig, value) => {
+      const { session } = runConfig.strategy.filters;
+      runConfig.strategy.filters.session = {
+        ...session,
+        enabled: true,
+        excludedHours: value.split(',').map((hour) => parseNumber('--exclude-hours', hour, { integer: true, min: 0 })),
+      };
+    },
+  },
+  '--exclude-weekdays': {
+    value: '<D,D>',
+    description: 'Skip signals on these UTC weekdays, 0 is Sunday',
+    apply: (runConfig, value) => {
+      const { session } = runConfig.strategy.filters;
+      runConfig.strategy.filters.session = {
+        ...session,
+        enabled: true,
+        excludedWeekdays: value.split(',').map((day) => parseNumber('--exclude-weekdays', day, { integer: true, min: 0 })),
+      };
+    },
+  },
+  '--execution-timeframe': {
+    value: '<TF>',
+    description: 'Fill, stop and trail on this finer timeframe, signals stay on --timeframe',
+    apply: (runConfig, value) => {
+      runConfig.strategy.executionTimeframe = parseChoice('--execution-timeframe', value, AVAILABLE_TIMEFRAMES);
+    },
+  },
+  '--from': {
+    value: '<YYYY-MM>',
+    description: 'First month of data',
+    apply: (runConfig, value) => {
+      runConfig.dataFetch.startDate = parseYearMonth('--from', value);
+    },
+  },
+  '--to': {
+    value: '<YYYY-MM>',
+    description: 'Last month of data (defaults to the current month)',
+    apply: (runConfig, value) => {
+      runConfig.dataFetch.endDate = parseYearMonth('--to', value);
+    },
+  },
+  '--data-source': {
+    value: '<SOURCE>',
+    description: 'Where candles come from (binance, local)',
+    apply: (runConfig, value) => {
+      runConfig.dataSource.type = parseChoice('--data-source', value, ['binance', 'local'] as const);
+    },
+  },
+  '--data-dir': {
+    value: '<DIR>',
+    description: 'Read local candles from DIR/<symbol>/<timeframe>/, implies --data-source local',
+    apply: (runConfig, value) => {
+      runConfig.dataSource.type = 'local';
+      runConfig.dataSource.local.directory = value;
+    },
+  },
+  '--data-url': {
+    value: '<URL>',
+    description: 'Kline archive root (defaults to https://data.binance.vision)',
+    apply: (runConfig, value) => {
+      runConfig.dataFetch.baseUrl = value.replace(/\/+$/, '');
+    },
+  },
+  '--no-daily-fallback': {
+    description: 'Skip months without a monthly archive instead of reading daily archives',
+    apply: (runConfig) => {
+      runConfig.dataFetch.dailyFallback = false;
+    },
+  },
+  '--repair-data': {
+    description: 'Sort loaded candles and drop duplicate open times before backtesting',
+    apply: (runConfig) => {
+      runConfig.dataQuality.repair = true;
+    },
+  },
+  '--skip-gaps': {
+    description: 'Detect no signals on candles whose lookback window spans missing candles',
+    apply: (runConfig) => {
+      runConfig.dataQuality.skipGappedLookback = true;
+    },
+  },
+  '--spike-percent': {
+    value: '<PCT>',
+    description: 'Wick from the previous close the audit reports as a price spike',
+    apply: (runConfig, value) => {
+      runConfig.dataQuality.spikePercent = parseNumber('--spike-percent', value);
+    },
+  },
+  '--balance': {
+    value: '<N>',
+    description: 'Initial account balance',
+    apply: (runConfig, value) => {
+      runConfig.account.initialBalance = parseNumber('--balance', value);
+    },
+  },
+  '--position-size': {
+    value: '<PCT>',
+    description: 'Position size as percent of balance',
+    apply: (runConfig, value) => {
+      runConfig.account.positionSizePercent = parseNumber('--position-size', value);
+    },
+  },
+  '--market': {
+    value: '<futures|spot>',
+    description: 'Market type',
+    apply: (runConfig, value) => {
+      runConfig.market.type = parseChoice('--market', value, ['futures', 'spot'] as const);
+    },
+  },
+  '--sub-type': {
+    value: '<um|cm>',
+    description: 'Futures market sub type (USD-M or COIN-M)',
+    apply: (runConfig, value) => {
+      runConfig.market.subType = parseChoice('--sub-type', value, ['um', 'cm'] as const);
+    },
+  },
+  '--leverage': {
+    value: '<N>',
+    description: 'Futures leverage',
+    apply: (runConfig, value) => {
+      runConfig.market.leverage = parseNumber('--leverage', value, { min: 1 });
+    },
+  },
+  '--margin-mode': {
+    value: '<isolated|cross>',
+    description: 'Futures margin mode',
+    apply: (runConfig, value) => {
+      runConfig.market.marginMode = parseChoice('--margin-mode', value, ['isolated', 'cross'] as const);
+    },
+  },
+  '--take-profit': {
+    value: '<MULT:PCT,...>',
+    description: 'Take-profit targets as threshold multiple:percent closed, e.g. 3:50,5:25',
+    apply: (runConfig, value) => {
+      runConfig.trade.takeProfit.targets = value.split(',').map((part) => {
+        const [multiple, closePercent] = part.split(':');
+        if (closePercent === undefined) {
+          throw new CliUsageError(`--take-profit expects MULT:PCT pairs, got "${part}"`);
+        }
+        return {
+          multiple: parseNumber('--take-profit', multiple),
+          closePercent: parseNumber('--take-profit', closePercent),
+        };
+      });
+    },
+  },
+  '--time-exit': {
+    value: '<N>',
+    description: 'Close open positions after N candles',
+    apply: (runConfig, value) => {
+      runConfig.trade.timeExit = { enabled: true, candles: parseNumber('--time-exit', value, { integer: true, min: 1 }) };
+    },
+  },
+  '--no-time-exit': {
+    description: 'No time exit, positions still open after maxLookForwardCandles close as TIMEOUT',
+    apply: (runConfig) => {
+      runConfig.trade.timeExit = { enabled: false };
+    },
+  },
+  '--intrabar': {
+    value: '<POLICY>',
+    description: 'Candle path when one candle touches two levels (pessimistic, optimistic, ohlc_path, lower_timeframe)',
+    apply: (runConfig, value) => {
+      runConfig.trade.intrabar.policy = parseChoice(
+        '--intrabar', value, ['pessimistic', 'optimistic', 'ohlc_path', 'lower_timeframe'] as const
+      );
+    },
+  },
+  '--lower-timeframe': {
+    value: '<TF>',
+    description: 'Candles used by --intrabar lower_timeframe',
+    apply: (runConfig, value) => {
+      runConfig.trade.intrabar.lowerTimeframe = parseChoice('--lower-timeframe', value, AVAILABLE_TIMEFRAMES);
+    },
+  },
+  '--position-mode': {
+    value: '<single|concurrent|reverse|pyramid>',
+    description: 'How signals are handled while a position is open',
+    apply: (runConfig, value) => {
+      runConfig.trade.positions.mode = parseChoice(
+        '--position-mode', value, ['single', 'concurrent', 'reverse', 'pyramid'] as const
+      );
+    },
+  },
+  '--max-positions': {
+    value: '<N>',
+    description: 'Maximum open positions in concurrent and pyramid mode',
+    apply: (runConfig, value) => {
+      runConfig.trade.positions.maxPositions = parseNumber('--max-positions', value, { integer: true, min: 1 });
+    },
+  },
+  '--max-look-forward': {
+    value: '<N>',
+    description: 'Maximum candles to look forward for entries and exits',
+    apply: (runConfig, value) => {
+      runConfig.trade.maxLookForwardCandles = parseNumber('--max-look-forward', value, { integer: true, min: 1 });
+    },
+  },
+  '--max-trigger-levels': {
+    value: '<N>',
+    description: 'Maximum trailing stop trigger levels',
+    apply: (runConfig, value) => {
+      runConfig.trade.trailingStop.maxTriggerLevels = parseNumber('--max-trigger-levels', value, { integer: true, min: 1 });
+    },
+  },
+  '--trailing-stop': {
+    value: '<MODEL>',
+    description: `Trailing stop model (${TRAILING_STOP_MODELS.join(', ')})`,
+    apply: (runConfig, value) => {
+      runConfig.trade.trailingStop.model = parseChoice('--trailing-stop', value, TRAILING_STOP_MODELS);
+    },
+  },
+  '--html-report': {
+    description: 'Write the HTML report for every batch backtest as well',
+    apply: (runConfig) => {
+      runConfig.report.html = 'all';
+    },
+  },
+  '--no-html-report': {
+    description: 'Skip the HTML report',
+    apply: (runConfig) => {
+      runConfig.report.html = 'off';
+    },
+  },
+  '--log-level': {
+    value: '<LEVEL>',
+    description: 'Logging verbosity (quiet, info, debug)',
+    apply: (runConfig, value) => {
+      runConfig.logging.level = parseChoice('--log-level', value, ['quiet', 'info', 'debug'] as const);
+    },
+  },
+  '--verbose': {
+    description: 'Log every candle checked, same as --log-level debug',
+    apply: (runConfig) => {
+      runConfig.logging.level = 'debug';
+    },
+  },
+  '--quiet': {
+    description: 'Only log summaries, same as --log-level quiet',
+    apply: (runConfig) => {
+      runConfig.logging.level = 'quiet';
+    },
+  },
+  '--parallel': {
+    description: 'Run batch downloads and backtests in parallel',
+    apply: (runConfig) => {
+      runConfig.backtestMode.batchProcessing = { ...runConfig.backtestMode.batchProcessing, parallel: true };
+    },
+  },
+  '--sequential': {
+    description: 'Run batch downloads and backtests one at a time',
+    apply: (runConfig) => {
+      runConfig.backtestMode.batchProcessing = { ...runConfig.backtestMode.batchProcessing, parallel: false };
+    },
+  },
+  '--concurrency': {
+    value: '<N>',
+    description: 'Number of parallel jobs in batch mode',
+    apply: (runConfig, value) => {
+      runConfig.backtestMode.batchProcessing = {
+        ...runConfig.backtestMode.batchProcessing,
+        parallel: runConfig.backtestMode.batchProcessing?.parallel ?? true,
+        concurrencyLimit: parseNumber('--concurrency', value, { integer: true, min: 1 }),
+      };
+    },
+  },
+  '--sort-by': {
+    value: '<METRIC>',
+    description: 'Batch summary order (net_pnl, return_percent, max_drawdown, win_rate, trade_count)',
+    apply: (runConfig, value) => {
+      runConfig.backtestMode.batchProcessing = {
+        parallel: false,
+        ...runConfig.backtestMode.batchProcessing,
+        sortBy: parseChoice(
+          '--sort-by', value, ['net_pnl', 'return_percent', 'max_drawdown', 'win_rate', 'trade_count'] as const
+        ),
+      };
+    },
+  },
+  '--lookback-range': {
+    value: '<RANGE>',
+    description: 'Optimizer lookback candles, start:end:step or a,b,c',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).lookbackCandles = parseRange('--lookback-range', value, true);
+    },
+  },
+  '--threshold-range': {
+    value: '<RANGE>',
+    description: 'Optimizer threshold multipliers',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).thresholds = parseRange('--threshold-range', value, false);
+    },
+  },
+  '--trigger-levels-range': {
+    value: '<RANGE>',
+    description: 'Optimizer maximum trigger levels',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).maxTriggerLevels = parseRange('--trigger-levels-range', value, true);
+    },
+  },
+  '--look-forward-range': {
+    value: '<RANGE>',
+    description: 'Optimizer maximum look forward candles',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).maxLookForwardCandles = parseRange('--look-forward-range', value, true);
+    },
+  },
+  '--trailing-stop-range': {
+    value: '<MODELS>',
+    description: 'Optimizer trailing stop models, a,b,c or all',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).trailingStopModels = value === 'all'
+        ? [...TRAILING_STOP_MODELS]
+        : value.split(',').map((model) => parseChoice('--trailing-stop-range', model, TRAILING_STOP_MODELS));
+    },
+  },
+  '--rank-by': {
+    value: '<METRIC>',
+    description: 'Optimizer ranking (net_pnl, win_rate, max_drawdown, trade_count)',
+    apply: (runConfig, value) => {
+      getOptimizerSettings(runConfig).rankBy = parseChoice(
+        '--rank-by', value, ['net_pnl', 'win_rate', 'max_drawdown', 'trade_count'] as const
+      );
+    },
+  },
+  '--all-pairs': {
+    description: 'Optimize every symbol and timeframe instead of --symbol / --timeframe',
+    apply: (runConfig) => {
+      getOptimizerSettings(runConfig).allPairs = true;
+    },
+  },
+  '--train-months': {
+    value: '<N>',
+    description: 'Walk-forward in-sample window length',
+    apply: (runConfig, value) => {
+      getWalkForwardSettings(runConfig).trainMonths = parseNumber('--train-months', value, { integer: true, min: 1 });
+    },
+  },
+  '--test-months': {
+    value: '<N>',
+    description: 'Walk-forward out-of-sample window length',
+    apply: (runConfig, value) => {
+      getWalkForwardSettings(runConfig).testMonths = parseNumber('--test-months', value, { integer: true, min: 1 });
+    },
+  },
+  '--step-months': {
+    value: '<N>',
+    description: 'Months between walk-forward windows (defaults to --test-months)',
+    apply: (runConfig, value) => {
+      getWalkForwardSettings(runConfig).stepMonths = parseNumber('--step-months', value, { integer: true, min: 1 });
+    },
+  },
+};
+
+export function getUsage(): string {
+  const flagLines = Object.entries(CONFIG_FLAGS).map(([flag, definition]) =>
+    `  ${`${flag}${definition.value ? ` ${definition.value}` : ''}`.padEnd(34)}${definition.description}`
+  );
+
+  return `Usage: ts-node src/run-backtest.ts [command] [options]
+
+Commands:
+  fetch                             Download klines for --symbol / --timeframe
+  backtest                          Download data and run a single backtest
+  batch                             Download data and backtest every symbol and timeframe
+  optimize                          Grid search lookback, threshold and trade limits per pair
+  walk-forward                      Optimize on rolling train windows and validate on the next window
+  report                            Rebuild the batch summary from existing results
+  audit                             Check the downloaded klines of --symbol for gaps, duplicates and bad candles
+
+Without a command, backtestMode.type from src/config.ts picks the command.
+
+Options:
+  ${'--config <FILE>'.padEnd(34)}Load settings from a JSON or YAML file (other flags override it)
+${flagLines.join('\n')}
+  ${'--no-fetch'.padEnd(34)}Skip the download phase of backtest, optimize and walk-forward
+  ${'-h, --help'.padEnd(34)}Show this help`;
+}
+
+function findConfigFile(argv: string[]): string | undefined {
+  let configFile: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--config') {
+      configFile = argv[i + 1];
+      if (configFile === undefined || configFile.startsWith('--')) {
+        throw new CliUsageError('--config expects a value <FILE>');
+      }
+    } else if (argv[i].startsWith('--config=')) {
+      configFile = argv[i].slice('--config='.length);
+    }
+  }
+  return configFile;
+}
+
+export function parseCliArgs(argv: string[], baseConfig: TradingConfig = config): CliOptions {
+  // The config file is applied first so flags always win regardless of their position
+  const configFile = findConfigFile(argv);
+  const fileConfig = configFile ? mergeConfig(baseConfig, readConfigFile(configFile)) : baseConfig;
+
+  // Work on a copy so overrides never leak into the shared default config
+  const runConfig: TradingConfig = JSON.parse(JSON.stringify(fileConfig));
+  let command: CliCommand | undefined;
+  let skipFetch = false;
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('-')) {
+      if (command) {
+        throw new CliUsageError(`Unexpected argument "${arg}"`);
+      }
+      command = parseChoice('command', arg, CLI_COMMANDS);
+      continue;
+    }
+
+    if (arg === '-h' || arg === '--help') {
+      help = true;
+      continue;
+    }
+
+    if (arg === '--config') {
+      i++;
+      continue;
+    }
+
+    if (arg.startsWith('--config=')) {
+      continue;
+    }
+
+    if (arg === '--no-fetch') {
+      skipFetch = true;
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : arg.slice(separator + 1);
+    const definition = CONFIG_FLAGS[flag];
+    if (!definition) {
+      throw new CliUsageError(`Unknown option "${flag}"`);
+    }
+
+    if (!definition.value) {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`${flag} does not take a value`);
+      }
+      definition.apply(runConfig, '');
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new CliUsageError(`${flag} expects a value ${definition.value}`);
+    }
+    definition.apply(runConfig, value);
+  }
+
+  const resolvedCommand = command ?? MODE_COMMANDS[runConfig.backtestMode.type];
+  if (runConfig.singleBacktest?.symbol === '') {
+    // Only --timeframe was given and there is no symbol to pair it with
+    const usesSinglePair = resolvedCommand === 'backtest' || resolvedCommand === 'fetch' ||
+      resolvedCommand === 'audit' ||
+      ((resolvedCommand === 'optimize' || resolvedCommand === 'walk-forward') && !runConfig.optimizer?.allPairs);
+    if (usesSinglePair) {
+      throw new CliUsageError('--timeframe needs --symbol, the config has no singleBacktest symbol');
+    }
+    delete runConfig.singleBacktest;
+  }
+
+  if (resolvedCommand === 'backtest' || resolvedCommand === 'fetch' || resolvedCommand === 'audit') {
+    runConfig.backtestMode.type = 'single';
+  } else if (resolvedCommand === 'optimize' || resolvedCommand === 'walk-forward') {
+    runConfig.backtestMode.type = resolvedCommand;
+  } else {
+    runConfig.backtestMode.type = 'batch';
+  }
+
+  if (!help) {
+    assertValidConfig(runConfig, configFile);
+  }
+
+  return { command: resolvedCommand, runConfig, configFile, skipFetch, help };
+}
@@ -0,0 +1,152 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config, { TradingConfig } from './config';
+import { parseCliArgs } from './cli';
+import {
+  ConfigIssue,
+  ConfigValidationError,
+  DeepPartial,
+  loadTradingConfig,
+  mergeConfig,
+  validateConfig,
+} from './config-loader';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-loader-'));
+
+function writeFile(name: string, content: string): string {
+  const filePath = path.join(tmpDir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function issuesOf(override: DeepPartial<TradingConfig>): ConfigIssue[] {
+  return validateConfig(mergeConfig(config, override));
+}
+
+function loadIssues(filePath: string): ConfigIssue[] {
+  try {
+    loadTradingConfig(filePath);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('the default config is valid', () => {
+  assert.deepEqual(validateConfig(config), []);
+});
+
+test('unknown keys are reported with their path', () => {
+  const filePath = writeFile('typo.json', JSON.stringify({ account: { initialBalanse: 500 }, reporting: {} }));
+
+  assert.deepEqual(loadIssues(filePath), [
+    { path: 'account.initialBalanse', message: 'is not a known setting' },
+    { path: 'reporting', message: 'is not a known setting' },
+  ]);
+});
+
+test('wrong types are reported', () => {
+  assert.deepEqual(issuesOf({ account: { initialBalance: '1000' as unknown as number } }), [
+    { path: 'account.initialBalance', message: 'must be a number, got "1000"' },
+  ]);
+  assert.deepEqual(issuesOf({ account: { sizing: { compound: 'yes' as unknown as boolean } } }), [
+    { path: 'account.sizing.compound', message: 'must be true or false, got "yes"' },
+  ]);
+  assert.deepEqual(issuesOf({ market: { subType: 'coin' as TradingConfig['market']['subType'] } }), [
+    { path: 'market.subType', message: 'must be one of um, cm, got "coin"' },
+  ]);
+  assert.deepEqual(issuesOf({ optimizer: { thresholds: 'all' as unknown as number[] } }), [
+    { path: 'optimizer.thresholds', message: 'must be a list of numbers or a { start, end, step } range' },
+  ]);
+});
+
+test('out of range values are reported', () => {
+  assert.deepEqual(issuesOf({ account: { initialBalance: 0 } }), [
+    { path: 'account.initialBalance', message: 'must be > 0, got 0' },
+  ]);
+  assert.deepEqual(issuesOf({ market: { leverage: 200 } }), [
+    { path: 'market.leverage', message: 'must be <= 125, got 200' },
+  ]);
+  assert.deepEqual(issuesOf({ dataFetch: { endDate: { year: 2024, month: 13 } } }), [
+    { path: 'dataFetch.endDate.month', message: 'must be <= 12, got 13' },
+  ]);
+  assert.deepEqual(issuesOf({ strategy: { lookbackPeriod: { candles: 2.5 } } }), [
+    { path: 'strategy.lookbackPeriod.candles', message: 'must be an integer, got 2.5' },
+  ]);
+});
+
+test('cross-field rules are checked after the schema', () => {
+  assert.deepEqual(issuesOf({ market: { type: 'spot', leverage: 5 } }), [
+    { path: 'market.leverage', message: 'must be 1 for spot markets' },
+  ]);
+  assert.deepEqual(issuesOf({ dataFetch: { startDate: { year: 2024, month: 6 }, endDate: { year: 2024, month: 1 } } }), [
+    { path: 'dataFetch.endDate', message: 'must not be before dataFetch.startDate (2024-6)' },
+  ]);
+});
+
+test('YAML and JSON files load to the same config', () => {
+  const override = { strategy: { lookbackPeriod: { threshold: 6 } }, trade: { positions: { mode: 'concurrent' } } };
+  const jsonConfig = loadTradingConfig(writeFile('settings.json', JSON.stringify(override)));
+  const yamlConfig = loadTradingConfig(writeFile('settings.yaml', [
+    'strategy:',
+    '  lookbackPeriod:',
+    '    threshold: 6',
+    'trade:',
+    '  positions:',
+    '    mode: concurrent',
+    '',
+  ].join('\n')));
+
+  assert.deepEqual(yamlConfig, jsonConfig);
+  assert.equal(jsonConfig.strategy.lookbackPeriod.threshold, 6);
+  // Fields the file leaves out keep their defaults
+  assert.equal(jsonConfig.strategy.lookbackPeriod.candles, config.strategy.lookbackPeriod.candles);
+  assert.equal(jsonConfig.trade.positions.maxPositions, config.trade.positions.maxPositions);
+});
+
+test('unreadable and unsupported files are reported', () => {
+  assert.match(loadIssues(path.join(tmpDir, 'missing.json'))[0].message, /^cannot be read/);
+  assert.match(loadIssues(writeFile('broken.json', '{ "account": '))[0].message, /^cannot be parsed/);
+  assert.match(loadIssues(writeFile('settings.toml', 'a = 1'))[0].message, /unsupported file type "\.toml"/);
+  assert.deepEqual(loadIssues(writeFile('list.yaml', '- 1\n- 2\n')), [{ path: '(root)', message: 'must be an object' }]);
+});
+
+test('arrays in a file replace the default list', () => {
+  const runConfig = mergeConfig(config, { optimizer: { lookbackCandles: [12] } });
+
+  assert.deepEqual(runConfig.optimizer!.lookbackCandles, [12]);
+  assert.deepEqual(runConfig.optimizer!.thresholds, config.optimizer!.thresholds);
+});
+
+test('command-line flags override the config file wherever they appear', () => {
+  const filePath = writeFile('cli.json', JSON.stringify({ strategy: { lookbackPeriod: { threshold: 8, candles: 48 } } }));
+
+  for (const argv of [
+    ['backtest', '--config', filePath, '--threshold', '5'],
+    ['backtest', '--threshold', '5', '--config', filePath],
+  ]) {
+    const { runConfig } = parseCliArgs(argv);
+    assert.equal(runConfig.strategy.lookbackPeriod.threshold, 5);
+    assert.equal(runConfig.strategy.lookbackPeriod.candles, 48);
+  }
+  // The shared defaults are left alone
+  assert.equal(config.strategy.lookbackPeriod.threshold, 10);
+});
+
+test('invalid flag values fail validation like file values', () => {
+  const filePath = writeFile('invalid.json', JSON.stringify({ market: { type: 'spot', leverage: 1 } }));
+
+  assert.throws(
+    () => parseCliArgs(['backtest', '--config', filePath, '--leverage', '10']),
+    (error: unknown) => error instanceof ConfigValidationError &&
+      error.issues.some((issue) => issue.path === 'market.leverage')
+  );
+});
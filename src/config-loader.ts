@@ -0,0 +1,653 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import config, { TradingConfig, AVAILABLE_TIMEFRAMES, STRATEGY_NAMES, TRAILING_STOP_MODELS } from './config';
+
+// Optional sections like optimizer and walkForward are partial too
+export type DeepPartial<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends Array<infer U>
+    ? Array<U>
+    : NonNullable<T[K]> extends object
+      ? DeepPartial<NonNullable<T[K]>>
+      : T[K];
+};
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(
+    public issues: ConfigIssue[],
+    source?: string
+  ) {
+    super(
+      `Invalid configuration${source ? ` in ${source}` : ''}:\n` +
+      issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type SchemaNode =
+  | { type: 'number'; optional?: boolean; integer?: boolean; min?: number; max?: number; exclusiveMin?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'string'; optional?: boolean; pattern?: RegExp }
+  | { type: 'enum'; optional?: boolean; values: readonly string[] }
+  | { type: 'object'; optional?: boolean; fields: Record<string, SchemaNode> }
+  | { type: 'array'; optional?: boolean; items: SchemaNode; minItems?: number }
+  | { type: 'oneOf'; optional?: boolean; options: SchemaNode[]; description: string };
+
+const yearMonthSchema: SchemaNode = {
+  type: 'object',
+  fields: {
+    year: { type: 'number', integer: true, min: 2017, max: 2100 },
+    month: { type: 'number', integer: true, min: 1, max: 12 },
+  },
+};
+
+// A column name, or a zero-based position
+const columnSchema: SchemaNode = {
+  type: 'oneOf',
+  options: [{ type: 'string' }, { type: 'number', integer: true, min: 0 }],
+  description: 'a column name or a zero-based position',
+};
+
+// Maker fees can be negative (rebates) on some venues
+const feeRatesSchema: SchemaNode = {
+  type: 'object',
+  fields: {
+    maker: { type: 'number', min: -1, max: 5 },
+    taker: { type: 'number', min: 0, max: 5 },
+  },
+};
+
+function parameterRangeSchema(integer: boolean, min: number): SchemaNode {
+  const value: SchemaNode = { type: 'number', integer, min };
+  return {
+    type: 'oneOf',
+    description: 'a list of numbers or a { start, end, step } range',
+    options: [
+      { type: 'array', items: value, minItems: 1 },
+      {
+        type: 'object',
+        fields: { start: value, end: value, step: { type: 'number', integer, min: 0, exclusiveMin: true } },
+      },
+    ],
+  };
+}
+
+const TRADING_CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    account: {
+      type: 'object',
+      fields: {
+        initialBalance: { type: 'number', min: 0, exclusiveMin: true },
+        positionSizePercent: { type: 'number', min: 0, max: 100, exclusiveMin: true },
+        sizing: {
+          type: 'object',
+          fields: {
+            mode: { type: 'enum', values: ['fixed_notional', 'percent_equity', 'fixed_risk', 'kelly'] },
+            fixedNotional: { type: 'number', min: 0, exclusiveMin: true },
+            riskPercent: { type: 'number', min: 0, max: 100, exclusiveMin: true },
+            kellyFraction: { type: 'number', min: 0, max: 1, exclusiveMin: true },
+            kellyMinTrades: { type: 'number', integer: true, min: 1 },
+            compound: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    strategy: {
+      type: 'object',
+      fields: {
+        name: { type: 'enum', values: STRATEGY_NAMES },
+        lookbackPeriod: {
+          type: 'object',
+          fields: {
+            candles: { type: 'number', integer: true, min: 1 },
+            threshold: { type: 'number', min: 0, exclusiveMin: true },
+          },
+        },
+        baseline: {
+          type: 'object',
+          fields: {
+            estimator: { type: 'enum', values: ['mean', 'median', 'ema', 'atr', 'stddev', 'percentile'] },
+            percentile: { type: 'number', min: 0, max: 100 },
+          },
+        },
+        filters: {
+          type: 'object',
+          fields: {
+            volume: {
+              type: 'object',
+              fields: {
+                enabled: { type: 'boolean' },
+                multiple: { type: 'number', min: 0, exclusiveMin: true },
+              },
+            },
+            bodyRatio: {
+              type: 'object',
+              fields: {
+                enabled: { type: 'boolean' },
+                min: { type: 'number', min: 0, max: 1 },
+              },
+            },
+            trend: {
+              type: 'object',
+              fields: {
+                enabled: { type: 'boolean' },
+                period: { type: 'number', integer: true, min: 1 },
+              },
+            },
+            minAverageMovement: {
+              type: 'object',
+              fields: {
+                enabled: { type: 'boolean' },
+                percent: { type: 'number', min: 0 },
+              },
+            },
+            session: {
+              type: 'object',
+              fields: {
+                enabled: { type: 'boolean' },
+                excludedHours: { type: 'array', items: { type: 'number', integer: true, min: 0, max: 23 } },
+                excludedWeekdays: { type: 'array', items: { type: 'number', integer: true, min: 0, max: 6 } },
+              },
+            },
+          },
+        },
+        executionTimeframe: { type: 'enum', optional: true, values: AVAILABLE_TIMEFRAMES },
+      },
+    },
+    trade: {
+      type: 'object',
+      fields: {
+        maxLookForwardCandles: { type: 'number', integer: true, min: 1 },
+        trailingStop: {
+          type: 'object',
+          fields: {
+            enabled: { type: 'boolean' },
+            model: { type: 'enum', values: TRAILING_STOP_MODELS },
+            maxTriggerLevels: { type: 'number', integer: true, min: 1 },
+            usesDynamicThreshold: { type: 'boolean' },
+            stepPercent: { type: 'number', min: 0, exclusiveMin: true },
+            minProfitToTrail: { type: 'number', optional: true, min: 0 },
+            atr: {
+              type: 'object',
+              fields: {
+                period: { type: 'number', integer: true, min: 1 },
+                multiplier: { type: 'number', min: 0, exclusiveMin: true },
+              },
+            },
+            trailPercent: { type: 'number', min: 0, exclusiveMin: true, max: 100 },
+            trailUpdateLog: { type: 'boolean' },
+          },
+        },
+        takeProfit: {
+          type: 'object',
+          fields: {
+            targets: {
+              type: 'array',
+              items: {
+                type: 'object',
+                fields: {
+                  multiple: { type: 'number', min: 0, exclusiveMin: true },
+                  closePercent: { type: 'number', min: 0, exclusiveMin: true, max: 100 },
+                },
+              },
+            },
+          },
+        },
+        timeExit: {
+          type: 'object',
+          fields: {
+            enabled: { type: 'boolean' },
+            candles: { type: 'number', optional: true, integer: true, min: 1 },
+          },
+        },
+        intrabar: {
+          type: 'object',
+          fields: {
+            policy: { type: 'enum', values: ['pessimistic', 'optimistic', 'ohlc_path', 'lower_timeframe'] },
+            lowerTimeframe: { type: 'enum', values: AVAILABLE_TIMEFRAMES },
+          },
+        },
+        positions: {
+          type: 'object',
+          fields: {
+            mode: { type: 'enum', values: ['single', 'concurrent', 'reverse', 'pyramid'] },
+            maxPositions: { type: 'number', integer: true, min: 1 },
+            allocationPercent: { type: 'number', optional: true, min: 0, exclusiveMin: true, max: 100 },
+          },
+        },
+      },
+    },
+    costs: {
+      type: 'object',
+      fields: {
+        fees: {
+          type: 'object',
+          fields: {
+            spot: feeRatesSchema,
+            um: feeRatesSchema,
+            cm: feeRatesSchema,
+          },
+        },
+        entryLiquidity: { type: 'enum', values: ['maker', 'taker'] },
+        exitLiquidity: { type: 'enum', values: ['maker', 'taker'] },
+        takeProfitLiquidity: { type: 'enum', values: ['maker', 'taker'] },
+        slippage: {
+          type: 'object',
+          fields: {
+            model: { type: 'enum', values: ['none', 'fixed_bps', 'candle_range'] },
+            bps: { type: 'number', min: 0 },
+            rangeFraction: { type: 'number', min: 0, max: 1 },
+          },
+        },
+        funding: {
+          type: 'object',
+          fields: {
+            enabled: { type: 'boolean' },
+            ratePercent: { type: 'number' },
+            intervalHours: { type: 'number', min: 0, exclusiveMin: true },
+          },
+        },
+      },
+    },
+    singleBacktest: {
+      type: 'object',
+      optional: true,
+      fields: {
+        symbol: { type: 'string', pattern: /^[A-Z0-9]+$/ },
+        timeframe: { type: 'enum', values: AVAILABLE_TIMEFRAMES },
+      },
+    },
+    market: {
+      type: 'object',
+      fields: {
+        type: { type: 'enum', values: ['futures', 'spot'] },
+        subType: { type: 'enum', values: ['um', 'cm'] },
+        leverage: { type: 'number', min: 1, max: 125 },
+        marginMode: { type: 'enum', values: ['isolated', 'cross'] },
+        contractSize: { type: 'number', min: 0, exclusiveMin: true },
+        maintenanceMarginTiers: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            fields: {
+              maxNotional: { type: 'number', optional: true, min: 0, exclusiveMin: true },
+              rate: { type: 'number', min: 0, max: 100 },
+              amount: { type: 'number', min: 0 },
+            },
+          },
+        },
+      },
+    },
+    backtestMode: {
+      type: 'object',
+      fields: {
+        type: { type: 'enum', values: ['single', 'batch', 'optimize', 'walk-forward'] },
+        batchProcessing: {
+          type: 'object',
+          optional: true,
+          fields: {
+            parallel: { type: 'boolean' },
+            concurrencyLimit: { type: 'number', optional: true, integer: true, min: 1 },
+            sortBy: {
+              type: 'enum',
+              optional: true,
+              values: ['net_pnl', 'return_percent', 'max_drawdown', 'win_rate', 'trade_count'],
+            },
+          },
+        },
+      },
+    },
+    dataFetch: {
+      type: 'object',
+      fields: {
+        startDate: yearMonthSchema,
+        endDate: { ...yearMonthSchema, optional: true },
+        baseUrl: { type: 'string', pattern: /^https?:\/\/\S+$/ },
+        dailyFallback: { type: 'boolean' },
+        retries: {
+          type: 'object',
+          fields: {
+            attempts: { type: 'number', integer: true, min: 1 },
+            baseDelayMs: { type: 'number', min: 0 },
+          },
+        },
+      },
+    },
+    dataSource: {
+      type: 'object',
+      fields: {
+        type: { type: 'enum', values: ['binance', 'local'] },
+        local: {
+          type: 'object',
+          fields: {
+            directory: { type: 'string' },
+            format: { type: 'enum', values: ['csv', 'json'] },
+            hasHeader: { type: 'boolean' },
+            timestampUnit: { type: 'enum', values: ['ms', 's'] },
+            columns: {
+              type: 'object',
+              fields: {
+                openTime: columnSchema,
+                open: columnSchema,
+                high: columnSchema,
+                low: columnSchema,
+                close: columnSchema,
+                volume: columnSchema,
+                closeTime: { ...columnSchema, optional: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    dataQuality: {
+      type: 'object',
+      fields: {
+        repair: { type: 'boolean' },
+        skipGappedLookback: { type: 'boolean' },
+        spikePercent: { type: 'number', min: 0, exclusiveMin: true },
+      },
+    },
+    report: {
+      type: 'object',
+      fields: {
+        html: { type: 'enum', values: ['single', 'all', 'off'] },
+      },
+    },
+    logging: {
+      type: 'object',
+      fields: {
+        level: { type: 'enum', values: ['quiet', 'info', 'debug'] },
+      },
+    },
+    optimizer: {
+      type: 'object',
+      optional: true,
+      fields: {
+        lookbackCandles: parameterRangeSchema(true, 1),
+        thresholds: parameterRangeSchema(false, 0),
+        maxTriggerLevels: parameterRangeSchema(true, 1),
+        maxLookForwardCandles: parameterRangeSchema(true, 1),
+        trailingStopModels: {
+          type: 'array',
+          optional: true,
+          minItems: 1,
+          items: { type: 'enum', values: TRAILING_STOP_MODELS },
+        },
+        rankBy: { type: 'enum', values: ['net_pnl', 'win_rate', 'max_drawdown', 'trade_count'] },
+        allPairs: { type: 'boolean' },
+      },
+    },
+    walkForward: {
+      type: 'object',
+      optional: true,
+      fields: {
+        trainMonths: { type: 'number', integer: true, min: 1 },
+        testMonths: { type: 'number', integer: true, min: 1 },
+        stepMonths: { type: 'number', optional: true, integer: true, min: 1 },
+      },
+    },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNode(value: unknown, schema: SchemaNode, fieldPath: string, issues: ConfigIssue[]): void {
+  if (value === undefined) {
+    if (!schema.optional) {
+      issues.push({ path: fieldPath, message: 'is required' });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path: fieldPath, message: `must be a number, got ${JSON.stringify(value)}` });
+        return;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        issues.push({ path: fieldPath, message: `must be an integer, got ${value}` });
+      }
+      if (schema.min !== undefined && (schema.exclusiveMin ? value <= schema.min : value < schema.min)) {
+        issues.push({ path: fieldPath, message: `must be ${schema.exclusiveMin ? '>' : '>='} ${schema.min}, got ${value}` });
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        issues.push({ path: fieldPath, message: `must be <= ${schema.max}, got ${value}` });
+      }
+      return;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path: fieldPath, message: `must be true or false, got ${JSON.stringify(value)}` });
+      }
+      return;
+    case 'string':
+      if (typeof value !== 'string' || value.length === 0) {
+        issues.push({ path: fieldPath, message: `must be a non-empty string, got ${JSON.stringify(value)}` });
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        issues.push({ path: fieldPath, message: `must match ${schema.pattern}, got "${value}"` });
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        issues.push({ path: fieldPath, message: `must be one of ${schema.values.join(', ')}, got ${JSON.stringify(value)}` });
+      }
+      return;
+    case 'object': {
+      if (!isPlainObject(value)) {
+        issues.push({ path: fieldPath, message: 'must be an object' });
+        return;
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        validateNode(value[key], fieldSchema, fieldPath ? `${fieldPath}.${key}` : key, issues);
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.fields)) {
+          issues.push({ path: fieldPath ? `${fieldPath}.${key}` : key, message: 'is not a known setting' });
+        }
+      }
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push({ path: fieldPath, message: 'must be a list' });
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path: fieldPath, message: `must have at least ${schema.minItems} item(s)` });
+      }
+      value.forEach((item, index) => validateNode(item, schema.items, `${fieldPath}[${index}]`, issues));
+      return;
+    }
+    case 'oneOf': {
+      // Accept the first option that validates cleanly, otherwise report the expected shape
+      for (const option of schema.options) {
+        const optionIssues: ConfigIssue[] = [];
+        validateNode(value, option, fieldPath, optionIssues);
+        if (optionIssues.length === 0) return;
+      }
+      issues.push({ path: fieldPath, message: `must be ${schema.description}` });
+      return;
+    }
+  }
+}
+
+export function validateConfig(runConfig: TradingConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateNode(runConfig, TRADING_CONFIG_SCHEMA, '', issues);
+
+  // Cross-field rules the schema can't express
+  const { startDate, endDate } = runConfig.dataFetch ?? {};
+  if (startDate && endDate &&
+      (endDate.year < startDate.year || (endDate.year === startDate.year && endDate.month < startDate.month))) {
+    issues.push({
+      path: 'dataFetch.endDate',
+      message: `must not be before dataFetch.startDate (${startDate.year}-${startDate.month})`,
+    });
+  }
+
+  if (runConfig.market?.type === 'spot' && runConfig.market.leverage !== 1) {
+    issues.push({ path: 'market.leverage', message: 'must be 1 for spot markets' });
+  }
+
+  const tiers = runConfig.market?.maintenanceMarginTiers ?? [];
+  tiers.forEach((tier, index) => {
+    const previous = tiers[index - 1]?.maxNotional;
+    if (tier.maxNotional === undefined && index < tiers.length - 1) {
+      issues.push({ path: `market.maintenanceMarginTiers[${index}].maxNotional`, message: 'is required on every tier but the last' });
+    } else if (tier.maxNotional !== undefined && previous !== undefined && tier.maxNotional <= previous) {
+      issues.push({ path: `market.maintenanceMarginTiers[${index}].maxNotional`, message: 'must be larger than the previous tier' });
+    }
+  });
+
+  const targets = runConfig.trade?.takeProfit?.targets ?? [];
+  targets.forEach((target, index) => {
+    if (index > 0 && target.multiple <= targets[index - 1].multiple) {
+      issues.push({ path: `trade.takeProfit.targets[${index}].multiple`, message: 'must be larger than the previous target' });
+    }
+  });
+  if (targets.reduce((sum, target) => sum + target.closePercent, 0) > 100) {
+    issues.push({ path: 'trade.takeProfit.targets', message: 'must not close more than 100% of the position in total' });
+  }
+
+  const timeExit = runConfig.trade?.timeExit;
+  if (timeExit?.candles !== undefined && timeExit.candles > runConfig.trade.maxLookForwardCandles) {
+    issues.push({
+      path: 'trade.timeExit.candles',
+      message: `must not exceed trade.maxLookForwardCandles (${runConfig.trade.maxLookForwardCandles})`,
+    });
+  }
+
+  const executionTimeframe = runConfig.strategy?.executionTimeframe;
+  if (executionTimeframe && runConfig.singleBacktest &&
+      AVAILABLE_TIMEFRAMES.indexOf(executionTimeframe) >= AVAILABLE_TIMEFRAMES.indexOf(runConfig.singleBacktest.timeframe)) {
+    issues.push({
+      path: 'strategy.executionTimeframe',
+      message: `must be shorter than singleBacktest.timeframe (${runConfig.singleBacktest.timeframe})`,
+    });
+  }
+
+  // Intrabar resolution splits the execution candles
+  const intrabar = runConfig.trade?.intrabar;
+  const tradedTimeframe = executionTimeframe ?? runConfig.singleBacktest?.timeframe;
+  if (intrabar?.policy === 'lower_timeframe' && tradedTimeframe &&
+      AVAILABLE_TIMEFRAMES.indexOf(intrabar.lowerTimeframe) >= AVAILABLE_TIMEFRAMES.indexOf(tradedTimeframe)) {
+    issues.push({
+      path: 'trade.intrabar.lowerTimeframe',
+      message: executionTimeframe
+        ? `must be shorter than strategy.executionTimeframe (${executionTimeframe})`
+        : `must be shorter than singleBacktest.timeframe (${tradedTimeframe})`,
+    });
+  }
+
+  if (runConfig.backtestMode?.type === 'single' && !runConfig.singleBacktest) {
+    issues.push({ path: 'singleBacktest', message: 'is required when backtestMode.type is "single"' });
+  }
+
+  if (runConfig.backtestMode?.type === 'optimize' || runConfig.backtestMode?.type === 'walk-forward') {
+    const mode = runConfig.backtestMode.type;
+    if (!runConfig.optimizer) {
+      issues.push({ path: 'optimizer', message: `is required when backtestMode.type is "${mode}"` });
+    } else if (!runConfig.optimizer.allPairs && !runConfig.singleBacktest) {
+      issues.push({ path: 'singleBacktest', message: 'is required unless optimizer.allPairs is true' });
+    }
+  }
+
+  if (runConfig.backtestMode?.type === 'walk-forward' && !runConfig.walkForward) {
+    issues.push({ path: 'walkForward', message: 'is required when backtestMode.type is "walk-forward"' });
+  }
+
+  for (const key of ['lookbackCandles', 'thresholds', 'maxTriggerLevels', 'maxLookForwardCandles'] as const) {
+    const range = runConfig.optimizer?.[key];
+    if (range && !Array.isArray(range) && range.end < range.start) {
+      issues.push({ path: `optimizer.${key}.end`, message: `must not be below start (${range.start})` });
+    }
+  }
+
+  return issues;
+}
+
+export function assertValidConfig(runConfig: TradingConfig, source?: string): void {
+  const issues = validateConfig(runConfig);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues, source);
+  }
+}
+
+function mergeObjects(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const baseValue = base[key];
+    // Arrays and scalars replace the default, nested objects are merged field by field
+    result[key] = isPlainObject(value) && isPlainObject(baseValue)
+      ? mergeObjects(baseValue, value)
+      : value;
+  }
+
+  return result;
+}
+
+export function mergeConfig<T>(base: T, override: DeepPartial<T>): T {
+  const baseFields: Record<string, unknown> = isPlainObject(base) ? base : {};
+  return mergeObjects(baseFields, override as Record<string, unknown>) as T;
+}
+
+export function readConfigFile(filePath: string): DeepPartial<TradingConfig> {
+  const resolvedPath = path.resolve(filePath);
+  let content: string;
+  try {
+    content = fs.readFileSync(resolvedPath, 'utf8');
+  } catch (error) {
+    throw new ConfigValidationError(
+      [{ path: '(file)', message: `cannot be read: ${error instanceof Error ? error.message : error}` }],
+      resolvedPath
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    const extension = path.extname(resolvedPath).toLowerCase();
+    if (extension === '.json') {
+      parsed = JSON.parse(content);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      parsed = YAML.parse(content);
+    } else {
+      throw new Error(`unsupported file type "${extension}", use .json, .yaml or .yml`);
+    }
+  } catch (error) {
+    throw new ConfigValidationError(
+      [{ path: '(file)', message: `cannot be parsed: ${error instanceof Error ? error.message : error}` }],
+      resolvedPath
+    );
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigValidationError([{ path: '(root)', message: 'must be an object' }], resolvedPath);
+  }
+  return parsed as DeepPartial<TradingConfig>;
+}
+
+export function loadTradingConfig(
+  filePath?: string,
+  defaults: TradingConfig = config
+): TradingConfig {
+  const runConfig = filePath ? mergeConfig(defaults, readConfigFile(filePath)) : mergeConfig(defaults, {});
+  assertValidConfig(runConfig, filePath);
+  return runConfig;
+}
@@ -1,25 +1,123 @@
+// Either an explicit list of values or an inclusive start/end range with a step
+export type ParameterRange = number[] | { start: number; end: number; step: number };
+
 export interface TradingConfig {
   account: {
     initialBalance: number;
     positionSizePercent: number;
+    sizing: {
+      mode: 'fixed_notional' | 'percent_equity' | 'fixed_risk' | 'kelly';
+      fixedNotional: number; // fixed_notional: position value per trade
+      riskPercent: number; // fixed_risk: share of equity lost when the initial stop is hit
+      kellyFraction: number; // kelly: share of the full Kelly bet, 0.5 is half Kelly
+      kellyMinTrades: number; // kelly: closed trades needed before Kelly replaces positionSizePercent
+      compound: boolean; // Size from the current balance instead of the initial balance
+    };
   };
 
   strategy: {
+    name: (typeof STRATEGY_NAMES)[number];
     lookbackPeriod: {
       candles: number;
       threshold: number;
     };
+    // The lookback candle size the threshold multiplies
+    baseline: {
+      estimator: 'mean' | 'median' | 'ema' | 'atr' | 'stddev' | 'percentile';
+      percentile: number; // percentile only, 0 to 100
+    };
+    // Optional checks a signal must pass before it is traded
+    filters: {
+      volume: {
+        enabled: boolean;
+        multiple: number; // Volume of at least this many times the lookback average
+      };
+      bodyRatio: {
+        enabled: boolean;
+        min: number; // Share of the high-low range covered by the body, 0 to 1
+      };
+      trend: {
+        enabled: boolean;
+        period: number; // LONG entries above the simple moving average of the closes, SHORT below
+      };
+      minAverageMovement: {
+        enabled: boolean;
+        percent: number; // Baseline movement below which no signal is taken
+      };
+      session: {
+        enabled: boolean;
+        excludedHours: number[]; // UTC hours, 0 to 23
+        excludedWeekdays: number[]; // UTC days, 0 is Sunday
+      };
+    };
+    // Detect signals on the run's timeframe but fill, stop and trail on this finer one.
+    // trade.maxLookForwardCandles and the other trade windows then count these candles.
+    // Omit it to execute on the signal timeframe.
+    executionTimeframe?: (typeof AVAILABLE_TIMEFRAMES)[number];
   };
 
   trade: {
-    maxLookForwardCandles: number;
+    maxLookForwardCandles: number; // Execution timeframe candles when strategy.executionTimeframe is set
     trailingStop: {
       enabled: boolean;
-      maxTriggerLevels: number;
-      usesDynamicThreshold: boolean;
-      minProfitToTrail?: number;
+      model: (typeof TRAILING_STOP_MODELS)[number];
+      maxTriggerLevels: number; // step_ladder and rolling_ladder
+      usesDynamicThreshold: boolean; // Step by the legend candle's threshold, otherwise by stepPercent
+      stepPercent: number; // Percent of the entry price
+      minProfitToTrail?: number; // breakeven_then_trail: profit percent that moves the stop to entry
+      atr: {
+        period: number; // atr_chandelier
+        multiplier: number;
+      };
+      trailPercent: number; // percent_trail: distance from the highest high or lowest low
       trailUpdateLog: boolean;
     };
+    // Scale out part of the position at multiples of the dynamic threshold from entry.
+    // Whatever isn't taken keeps trailing.
+    takeProfit: {
+      targets: Array<{
+        multiple: number;
+        closePercent: number; // Percent of the original position size
+      }>;
+    };
+    // Close what is left at the candle close after N candles
+    timeExit: {
+      enabled: boolean;
+      candles?: number; // Defaults to maxLookForwardCandles
+    };
+    // Which level a candle reached first when it touched two of them
+    intrabar: {
+      policy: 'pessimistic' | 'optimistic' | 'ohlc_path' | 'lower_timeframe';
+      lowerTimeframe: (typeof AVAILABLE_TIMEFRAMES)[number]; // lower_timeframe only
+    };
+    // How signals are handled while earlier positions are still open
+    positions: {
+      mode: 'single' | 'concurrent' | 'reverse' | 'pyramid';
+      maxPositions: number; // concurrent and pyramid only
+      allocationPercent?: number; // Equity share per position, defaults to 100 / maxPositions
+    };
+  };
+
+  // Trading costs applied to every fill. Fee rates are percent of notional.
+  costs: {
+    fees: {
+      spot: { maker: number; taker: number };
+      um: { maker: number; taker: number };
+      cm: { maker: number; taker: number };
+    };
+    entryLiquidity: 'maker' | 'taker';
+    exitLiquidity: 'maker' | 'taker';
+    takeProfitLiquidity: 'maker' | 'taker'; // Take-profit legs, maker fills get no slippage
+    slippage: {
+      model: 'none' | 'fixed_bps' | 'candle_range';
+      bps: number; // Used by fixed_bps
+      rangeFraction: number; // Used by candle_range, share of the fill candle's high-low range
+    };
+    funding: {
+      enabled: boolean;
+      ratePercent: number; // Per funding interval, positive means longs pay shorts
+      intervalHours: number;
+    };
   };
 
   // Single backtest configuration
@@ -32,13 +130,24 @@ export interface TradingConfig {
   market: {
     type: 'futures' | 'spot';
     subType: 'um' | 'cm'; // um for USD-M futures, cm for COIN-M futures
+    leverage: number; // Futures only, spot always trades at 1x
+    marginMode: 'isolated' | 'cross';
+    contractSize: number; // COIN-M contract value in USD (100 for BTC, 10 for most others)
+    // Notional is in the account currency: USDT for USD-M, the base coin for COIN-M.
+    // The balance is in the base coin too when trading COIN-M.
+    maintenanceMarginTiers: Array<{
+      maxNotional?: number; // Omit on the last tier
+      rate: number; // Percent
+      amount: number;
+    }>;
   };
 
   backtestMode: {
-    type: 'single' | 'batch';
+    type: 'single' | 'batch' | 'optimize' | 'walk-forward';
     batchProcessing?: {
       parallel: boolean;
       concurrencyLimit?: number;
+      sortBy?: 'net_pnl' | 'return_percent' | 'max_drawdown' | 'win_rate' | 'trade_count'; // Summary leaderboard order
     };
   };
 
@@ -51,6 +160,72 @@ export interface TradingConfig {
       year: number;
       month: number;
     };
+    baseUrl: string; // Binance archive root, or a mirror serving the same layout
+    // Fill months without a published monthly archive from the daily archives
+    dailyFallback: boolean;
+    // Requests failing with 429, 5xx or a timeout, and archives failing their checksum
+    retries: {
+      attempts: number; // Including the first request
+      baseDelayMs: number; // Doubles after every failed attempt
+    };
+  };
+
+  // Where candles come from: binance downloads the public archive into kline/,
+  // local reads a folder of CSV or JSON candles and never downloads
+  dataSource: {
+    type: 'binance' | 'local';
+    local: {
+      directory: string; // Holds <symbol>/<timeframe>/ folders, relative to the working directory
+      format: 'csv' | 'json';
+      hasHeader: boolean; // csv only, without a header the columns are positions
+      timestampUnit: 'ms' | 's';
+      // Column names, or zero-based positions for headerless CSVs and JSON arrays
+      columns: {
+        openTime: string | number;
+        open: string | number;
+        high: string | number;
+        low: string | number;
+        close: string | number;
+        volume: string | number;
+        closeTime?: string | number; // Derived from the timeframe when omitted
+      };
+    };
+  };
+
+  // Candle checks, the audit command reports the rest of the issues
+  dataQuality: {
+    repair: boolean; // Sort loaded candles and drop duplicate open times
+    skipGappedLookback: boolean; // No signals from candles whose lookback window misses candles
+    spikePercent: number; // audit: wicks further than this from the previous close are spikes
+  };
+
+  // single: HTML report for single backtests only, all: batch runs too, off: never
+  report: {
+    html: 'single' | 'all' | 'off';
+  };
+
+  // quiet: only summaries, info: one line per signal, debug: every candle checked
+  logging: {
+    level: 'quiet' | 'info' | 'debug';
+  };
+
+  // Parameter sweep used when backtestMode.type is 'optimize'
+  optimizer?: {
+    lookbackCandles: ParameterRange;
+    thresholds: ParameterRange;
+    maxTriggerLevels: ParameterRange;
+    maxLookForwardCandles: ParameterRange;
+    trailingStopModels?: Array<(typeof TRAILING_STOP_MODELS)[number]>; // Defaults to trade.trailingStop.model
+    rankBy: 'net_pnl' | 'win_rate' | 'max_drawdown' | 'trade_count';
+    allPairs: boolean; // false: only singleBacktest, true: every symbol x timeframe
+  };
+
+  // Rolling train/test windows used when backtestMode.type is 'walk-forward'.
+  // Each train window is optimized with the optimizer ranges above.
+  walkForward?: {
+    trainMonths: number;
+    testMonths: number;
+    stepMonths?: number; // Defaults to testMonths
   };
 }
 
@@ -58,24 +233,105 @@ const config: TradingConfig = {
   account: {
     initialBalance: 1000,
     positionSizePercent: 100,
+    sizing: {
+      mode: 'percent_equity',
+      fixedNotional: 1000,
+      riskPercent: 1,
+      kellyFraction: 0.5,
+      kellyMinTrades: 20,
+      compound: true,
+    },
   },
 
   strategy: {
+    name: 'legend_candle',
     lookbackPeriod: {
       candles: 72,
       threshold: 10,
     },
+    baseline: {
+      estimator: 'mean',
+      percentile: 75,
+    },
+    filters: {
+      volume: {
+        enabled: false,
+        multiple: 1.5,
+      },
+      bodyRatio: {
+        enabled: false,
+        min: 0.5,
+      },
+      trend: {
+        enabled: false,
+        period: 50,
+      },
+      minAverageMovement: {
+        enabled: false,
+        percent: 0.05,
+      },
+      session: {
+        enabled: false,
+        excludedHours: [],
+        excludedWeekdays: [],
+      },
+    },
   },
 
   trade: {
     maxLookForwardCandles: 720,
     trailingStop: {
       enabled: true,
+      model: 'step_ladder',
       maxTriggerLevels: 20,
       usesDynamicThreshold: true,
+      stepPercent: 1,
       minProfitToTrail: 0.5,
+      atr: {
+        period: 14,
+        multiplier: 3,
+      },
+      trailPercent: 2,
       trailUpdateLog: true,
     },
+    takeProfit: {
+      targets: [],
+    },
+    timeExit: {
+      enabled: false,
+    },
+    intrabar: {
+      policy: 'pessimistic',
+      lowerTimeframe: '1m',
+    },
+    positions: {
+      mode: 'single',
+      maxPositions: 3,
+    },
+  },
+
+  costs: {
+    fees: {
+      spot: { maker: 0.1, taker: 0.1 },
+      um: { maker: 0.02, taker: 0.05 },
+      cm: { maker: 0.02, taker: 0.05 },
+    },
+    // Threshold entries and stop exits are stop-market orders
+    entryLiquidity: 'taker',
+    exitLiquidity: 'taker',
+    // Take-profit targets are limit orders
+    takeProfitLiquidity: 'maker',
+    // Slippage and funding are opt-in, e.g. model 'fixed_bps' with 2 bps and funding enabled
+    slippage: {
+      model: 'none',
+      bps: 2,
+      rangeFraction: 0.1,
+    },
+    funding: {
+      enabled: false,
+      ratePercent: 0.01,
+      intervalHours: 8,
+    },
   },
 
   // Only used when backtestMode.type is 'single'
@@ -87,6 +343,16 @@ const config: TradingConfig = {
   market: {
     type: 'futures',
     subType: 'um',
+    leverage: 1,
+    marginMode: 'isolated',
+    contractSize: 10,
+    maintenanceMarginTiers: [
+      { maxNotional: 50000, rate: 0.5, amount: 0 },
+      { maxNotional: 250000, rate: 0.65, amount: 75 },
+      { maxNotional: 3000000, rate: 1, amount: 825 },
+      { maxNotional: 15000000, rate: 2.5, amount: 45825 },
+      { rate: 5, amount: 420825 },
+    ],
   },
 
   backtestMode: {
@@ -106,6 +372,58 @@ const config: TradingConfig = {
       year: 2024,
       month: 10,
     },
+    baseUrl: 'https://data.binance.vision',
+    dailyFallback: true,
+    retries: {
+      attempts: 5,
+      baseDelayMs: 1000,
+    },
+  },
+
+  dataSource: {
+    type: 'binance',
+    local: {
+      directory: 'data',
+      format: 'csv',
+      hasHeader: true,
+      timestampUnit: 'ms',
+      columns: {
+        openTime: 'open_time',
+        open: 'open',
+        high: 'high',
+        low: 'low',
+        close: 'close',
+        volume: 'volume',
+      },
+    },
+  },
+
+  dataQuality: {
+    repair: false,
+    skipGappedLookback: false,
+    spikePercent: 20,
+  },
+
+  report: {
+    html: 'single',
+  },
+
+  logging: {
+    level: 'info',
+  },
+
+  optimizer: {
+    lookbackCandles: [24, 48, 72, 96],
+    thresholds: { start: 4, end: 12, step: 2 },
+    maxTriggerLevels: [20],
+    maxLookForwardCandles: [720],
+    rankBy: 'net_pnl',
+    allPairs: false,
+  },
+
+  walkForward: {
+    trainMonths: 6,
+    testMonths: 2,
   },
 };
 
@@ -134,4 +452,14 @@ export const AVAILABLE_TIMEFRAMES = [
   '1d',
 ] as const;
 
+export const STRATEGY_NAMES = ['legend_candle'] as const;
+
+export const TRAILING_STOP_MODELS = [
+  'step_ladder',
+  'atr_chandelier',
+  'percent_trail',
+  'breakeven_then_trail',
+  'rolling_ladder',
+] as const;
+
 export default config;
@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { DeepPartial, mergeConfig } from './config-loader';
+import { combineTradeCosts, CostModel } from './costs';
+import { TradeCosts } from './interfaces';
+
+// USD-M at 0.02% maker / 0.05% taker, 10 bps slippage and 0.01% funding every 8 hours
+function createCostModel(overrides: DeepPartial<TradingConfig> = {}): CostModel {
+  const base = mergeConfig(config, {
+    market: { type: 'futures', subType: 'um' },
+    costs: {
+      fees: { um: { maker: 0.02, taker: 0.05 } },
+      slippage: { model: 'fixed_bps', bps: 10 },
+      funding: { enabled: true, ratePercent: 0.01, intervalHours: 8 },
+    },
+  });
+  return new CostModel(mergeConfig(base, overrides));
+}
+
+function at(hour: number): number {
+  return Date.UTC(2024, 0, 1, hour);
+}
+
+function assertCosts(actual: TradeCosts, expected: Partial<TradeCosts>): void {
+  for (const [field, value] of Object.entries(expected) as Array<[keyof TradeCosts, number]>) {
+    assert.ok(Math.abs(actual[field] - value) < 1e-9, `${field}: expected ${value}, got ${actual[field]}`);
+  }
+}
+
+test('a LONG across a funding time pays fees, slippage and funding', () => {
+  // 2 units from 1000 to 1100, open from 07:00 to 09:00 across the 08:00 funding time
+  const costs = createCostModel().calculateTradeCosts({
+    side: 'LONG', size: 2, entryPrice: 1000, exitPrice: 1100, entryTime: at(7), exitTime: at(9),
+  });
+
+  assertCosts(costs, {
+    entry_fill_price: 1001, // Bought 10 bps higher
+    exit_fill_price: 1098.9, // Sold 10 bps lower
+    gross_pnl: 200,
+    slippage: 200 - (1098.9 - 1001) * 2, // 4.2
+    entry_fee: 2002 * 0.0005, // 1.001
+    exit_fee: 2197.8 * 0.0005, // 1.0989
+    funding: 2002 * 0.0001, // Longs pay 0.2002
+    funding_events: 1,
+    net_pnl: 200 - 4.2 - 1.001 - 1.0989 - 0.2002,
+  });
+});
+
+test('a SHORT between funding times pays no funding', () => {
+  // 2 units from 1000 down to 900, open from 09:00 to 15:00
+  const costs = createCostModel().calculateTradeCosts({
+    side: 'SHORT', size: 2, entryPrice: 1000, exitPrice: 900, entryTime: at(9), exitTime: at(15),
+  });
+
+  assertCosts(costs, {
+    entry_fill_price: 999, // Sold 10 bps lower
+    exit_fill_price: 900.9, // Bought back 10 bps higher
+    gross_pnl: 200,
+    slippage: 3.8,
+    entry_fee: 1998 * 0.0005, // 0.999
+    exit_fee: 1801.8 * 0.0005, // 0.9009
+    funding: 0,
+    funding_events: 0,
+    net_pnl: 200 - 3.8 - 0.999 - 0.9009,
+  });
+});
+
+test('a SHORT across a funding time receives positive funding', () => {
+  const costs = createCostModel().calculateTradeCosts({
+    side: 'SHORT', size: 2, entryPrice: 1000, exitPrice: 900, entryTime: at(15), exitTime: at(17),
+  });
+
+  assertCosts(costs, { funding: -1998 * 0.0001, funding_events: 1, net_pnl: 200 - 3.8 - 0.999 - 0.9009 + 0.1998 });
+});
+
+test('funding counts every boundary after entry up to and including exit', () => {
+  const model = createCostModel();
+
+  // 08:00, 16:00 and midnight
+  assert.equal(model.calculateFunding('LONG', 1000, at(7), at(25)).events, 3);
+  // Entering on a funding time doesn't pay it, exiting on one does
+  assert.equal(model.calculateFunding('LONG', 1000, at(8), at(16)).events, 1);
+  assert.equal(model.calculateFunding('LONG', 1000, at(8), at(8)).events, 0);
+  // 0.01% of 1000 three times
+  assert.ok(Math.abs(model.calculateFunding('LONG', 1000, at(7), at(25)).amount - 0.3) < 1e-9);
+});
+
+test('spot and disabled funding never pay funding', () => {
+  const spot = createCostModel({ market: { type: 'spot', leverage: 1 } });
+  const disabled = createCostModel({ costs: { funding: { enabled: false } } });
+
+  assert.deepEqual(spot.calculateFunding('LONG', 1000, at(0), at(48)), { amount: 0, events: 0 });
+  assert.deepEqual(disabled.calculateFunding('LONG', 1000, at(0), at(48)), { amount: 0, events: 0 });
+});
+
+test('take-profit exits fill at the target as maker', () => {
+  const costs = createCostModel().calculateTradeCosts({
+    side: 'LONG', size: 2, entryPrice: 1000, exitPrice: 1100, entryTime: at(9), exitTime: at(10), exitType: 'TAKE_PROFIT',
+  });
+
+  assertCosts(costs, {
+    exit_fill_price: 1100,
+    slippage: 2, // Entry side only
+    exit_fee: 2200 * 0.0002,
+    net_pnl: 200 - 2 - 1.001 - 0.44,
+  });
+});
+
+test('COIN-M costs are in the base coin', () => {
+  // 100 contracts of 10 USD: 1 coin at 1000, 0.8 coin at 1250
+  const costs = createCostModel({
+    market: { subType: 'cm', contractSize: 10 },
+    costs: { fees: { cm: { maker: 0.02, taker: 0.05 } }, slippage: { model: 'none' }, funding: { enabled: false } },
+  }).calculateTradeCosts({
+    side: 'LONG', size: 100, entryPrice: 1000, exitPrice: 1250, entryTime: at(9), exitTime: at(10),
+  });
+
+  assertCosts(costs, { gross_pnl: 0.2, entry_fee: 0.0005, exit_fee: 0.0004, net_pnl: 0.2 - 0.0009 });
+});
+
+test('legs add up and fill prices are averaged by size', () => {
+  const model = createCostModel();
+  const legs = [
+    { size: 1, costs: model.calculateTradeCosts({ side: 'LONG', size: 1, entryPrice: 1000, exitPrice: 1100, entryTime: at(7), exitTime: at(9) }) },
+    { size: 3, costs: model.calculateTradeCosts({ side: 'LONG', size: 3, entryPrice: 1000, exitPrice: 1200, entryTime: at(7), exitTime: at(17) }) },
+  ];
+
+  const combined = combineTradeCosts(legs);
+
+  assertCosts(combined, {
+    entry_fill_price: 1001,
+    exit_fill_price: (1098.9 + 3 * 1198.8) / 4,
+    gross_pnl: 100 + 600,
+    total_fees: legs[0].costs.total_fees + legs[1].costs.total_fees,
+    funding: legs[0].costs.funding + legs[1].costs.funding,
+    funding_events: 2,
+    net_pnl: legs[0].costs.net_pnl + legs[1].costs.net_pnl,
+  });
+});
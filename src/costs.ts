@@ -0,0 +1,148 @@
+import config, { TradingConfig } from './config';
+import { TradeCosts, TradeExitType } from './interfaces';
+import { getContractSpec, getNotional, getPositionPnl } from './margin';
+
+export interface FillCandle {
+  high: number;
+  low: number;
+}
+
+export class CostModel {
+  constructor(private runConfig: TradingConfig = config) {}
+
+  getFeeRates(): { maker: number; taker: number } {
+    const { fees } = this.runConfig.costs;
+    return this.runConfig.market.type === 'spot' ? fees.spot : fees[this.runConfig.market.subType];
+  }
+
+  // Moves a fill price against the trader: entries fill higher for longs and lower
+  // for shorts, exits the other way round
+  applySlippage(
+    price: number,
+    side: 'LONG' | 'SHORT',
+    action: 'entry' | 'exit',
+    candle?: FillCandle
+  ): number {
+    const { slippage } = this.runConfig.costs;
+    let amount = 0;
+
+    switch (slippage.model) {
+      case 'fixed_bps':
+        amount = price * (slippage.bps / 10000);
+        break;
+      case 'candle_range':
+        amount = candle ? (candle.high - candle.low) * slippage.rangeFraction : 0;
+        break;
+      case 'none':
+        amount = 0;
+        break;
+    }
+
+    const buying = (side === 'LONG') === (action === 'entry');
+    return buying ? price + amount : price - amount;
+  }
+
+  calculateFee(notional: number, liquidity: 'maker' | 'taker'): number {
+    return Math.abs(notional) * (this.getFeeRates()[liquidity] / 100);
+  }
+
+  // Take-profit exits rest on the book as limit orders, everything else is a market or stop-market order
+  getExitLiquidity(exitType?: TradeExitType): 'maker' | 'taker' {
+    return exitType === 'TAKE_PROFIT' ? this.runConfig.costs.takeProfitLiquidity : this.runConfig.costs.exitLiquidity;
+  }
+
+  // Funding is exchanged at fixed UTC times (every 8h on Binance) for positions
+  // open at that moment; positive rates mean longs pay shorts
+  calculateFunding(
+    side: 'LONG' | 'SHORT',
+    notional: number,
+    entryTime: number,
+    exitTime: number
+  ): { amount: number; events: number } {
+    const { funding } = this.runConfig.costs;
+    if (this.runConfig.market.type !== 'futures' || !funding.enabled) {
+      return { amount: 0, events: 0 };
+    }
+
+    const interval = funding.intervalHours * 60 * 60 * 1000;
+    const events = Math.max(0, Math.floor(exitTime / interval) - Math.floor(entryTime / interval));
+    const direction = side === 'LONG' ? 1 : -1;
+
+    return {
+      amount: direction * Math.abs(notional) * (funding.ratePercent / 100) * events,
+      events,
+    };
+  }
+
+  calculateTradeCosts(trade: {
+    side: 'LONG' | 'SHORT';
+    size: number;
+    entryPrice: number;
+    exitPrice: number;
+    entryTime: number;
+    exitTime: number;
+    entryCandle?: FillCandle;
+    exitCandle?: FillCandle;
+    exitType?: TradeExitType;
+  }): TradeCosts {
+    const spec = getContractSpec(this.runConfig);
+    const exitLiquidity = this.getExitLiquidity(trade.exitType);
+    const entryFill = this.applySlippage(trade.entryPrice, trade.side, 'entry', trade.entryCandle);
+    // A maker fill happens at the order's own price
+    const exitFill = exitLiquidity === 'maker'
+      ? trade.exitPrice
+      : this.applySlippage(trade.exitPrice, trade.side, 'exit', trade.exitCandle);
+
+    // Everything is valued in the account currency: USDT for linear, the base coin for COIN-M
+    const grossPnl = getPositionPnl(trade.entryPrice, trade.exitPrice, trade.side, trade.size, spec);
+    const filledPnl = getPositionPnl(entryFill, exitFill, trade.side, trade.size, spec);
+    const slippage = grossPnl - filledPnl;
+
+    const entryFee = this.calculateFee(getNotional(entryFill, trade.size, spec), this.runConfig.costs.entryLiquidity);
+    const exitFee = this.calculateFee(getNotional(exitFill, trade.size, spec), exitLiquidity);
+    const funding = this.calculateFunding(
+      trade.side,
+      getNotional(entryFill, trade.size, spec),
+      trade.entryTime,
+      trade.exitTime
+    );
+
+    return {
+      entry_fill_price: entryFill,
+      exit_fill_price: exitFill,
+      gross_pnl: grossPnl,
+      entry_fee: entryFee,
+      exit_fee: exitFee,
+      total_fees: entryFee + exitFee,
+      slippage,
+      funding: funding.amount,
+      funding_events: funding.events,
+      liquidation_fee: 0,
+      net_pnl: grossPnl - slippage - entryFee - exitFee - funding.amount,
+    };
+  }
+}
+
+// Totals for a trade closed in several legs; fill prices are averaged by leg size
+export function combineTradeCosts(legs: Array<{ size: number; costs: TradeCosts }>): TradeCosts {
+  const totalSize = legs.reduce((sum, leg) => sum + leg.size, 0);
+  const sum = (field: keyof TradeCosts) => legs.reduce((total, leg) => total + leg.costs[field], 0);
+  const average = (field: 'entry_fill_price' | 'exit_fill_price') => totalSize > 0
+    ? legs.reduce((total, leg) => total + leg.costs[field] * leg.size, 0) / totalSize
+    : legs[0].costs[field];
+
+  return {
+    entry_fill_price: average('entry_fill_price'),
+    exit_fill_price: average('exit_fill_price'),
+    gross_pnl: sum('gross_pnl'),
+    entry_fee: sum('entry_fee'),
+    exit_fee: sum('exit_fee'),
+    total_fees: sum('total_fees'),
+    slippage: sum('slippage'),
+    funding: sum('funding'),
+    // The longest leg was open across every funding time the others were
+    funding_events: Math.max(...legs.map((leg) => leg.costs.funding_events)),
+    liquidation_fee: sum('liquidation_fee'),
+    net_pnl: sum('net_pnl'),
+  };
+}
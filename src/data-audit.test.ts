@@ -0,0 +1,92 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from './config';
+import { DataAuditor, repairCandles } from './data-audit';
+import { Candle } from './interfaces';
+
+const HOUR_MS = 60 * 60 * 1000;
+const JAN = 'ETHUSDT-1h-2024-01.csv';
+const FEB = 'ETHUSDT-1h-2024-02.csv';
+
+const klineDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-audit-'));
+
+// A headerless Binance kline row for the given hour of 2024-01-01
+function klineRow(hour: number, { open = 100, high = 101, low = 99, close = 100, volume = 10 } = {}): string {
+  const openTime = Date.UTC(2024, 0, 1, hour);
+  return [openTime, open, high, low, close, volume, openTime + HOUR_MS - 1, volume * close, 5, volume / 2, (volume * close) / 2, 0].join(',');
+}
+
+function candle(hour: number, close = 100): Candle {
+  const openTime = hour * HOUR_MS;
+  return { openTime, open: close, high: close, low: close, close, volume: 1, closeTime: openTime + HOUR_MS - 1 };
+}
+
+after(() => {
+  fs.rmSync(klineDir, { recursive: true, force: true });
+});
+
+test('repairing sorts candles and keeps the first of every open time', () => {
+  const { candles, duplicates, reordered } = repairCandles([candle(0), candle(2, 102), candle(1), candle(2, 999), candle(3)]);
+
+  assert.deepEqual(candles.map((c) => [c.openTime / HOUR_MS, c.close]), [[0, 100], [1, 100], [2, 102], [3, 100]]);
+  assert.equal(duplicates, 1);
+  assert.equal(reordered, 1);
+});
+
+test('candles already in order are left as they are', () => {
+  const input = [candle(0), candle(1), candle(2)];
+  const repaired = repairCandles(input);
+
+  assert.deepEqual(repaired.candles, input);
+  assert.equal(repaired.duplicates, 0);
+  assert.equal(repaired.reordered, 0);
+});
+
+test('the audit finds every kind of issue across the monthly files', async () => {
+  const csvDir = path.join(klineDir, 'ETHUSDT', '1h', 'csv');
+  fs.mkdirSync(csvDir, { recursive: true });
+  fs.writeFileSync(path.join(csvDir, JAN), [
+    klineRow(0),
+    klineRow(2),
+    'not,a,kline',
+    klineRow(1),
+    klineRow(3),
+  ].join('\n'));
+  // Starts with the last candle of January again
+  fs.writeFileSync(path.join(csvDir, FEB), [
+    klineRow(3),
+    klineRow(4),
+    klineRow(7),
+    klineRow(8, { volume: 0 }),
+    klineRow(9, { high: 100, close: 100.5 }),
+    klineRow(10, { high: 130 }),
+  ].join('\n'));
+
+  const audit = await new DataAuditor(config, klineDir).auditTimeframe('ETHUSDT', '1h');
+
+  assert.equal(audit.files, 2);
+  assert.equal(audit.candles, 9);
+  assert.equal(audit.first_candle, '2024-01-01 00:00:00');
+  assert.equal(audit.last_candle, '2024-01-01 10:00:00');
+  assert.deepEqual(audit.rejected_rows.examples, [{ file: JAN, line: 3, reason: 'open_time is not a number ("not")' }]);
+  assert.deepEqual(audit.out_of_order.examples, [{ file: JAN, time: '2024-01-01 01:00:00', previous: '2024-01-01 02:00:00' }]);
+  assert.deepEqual(audit.duplicates.examples, [{ time: '2024-01-01 03:00:00', files: [JAN, FEB] }]);
+  assert.deepEqual(audit.gaps, {
+    count: 1,
+    missing_candles: 2,
+    examples: [{ from: '2024-01-01 04:00:00', to: '2024-01-01 07:00:00', missing_candles: 2 }],
+  });
+  assert.deepEqual(audit.zero_volume.examples, [{ time: '2024-01-01 08:00:00' }]);
+  assert.deepEqual(audit.invalid_ohlc.examples, [{ time: '2024-01-01 09:00:00', reason: 'high below open or close' }]);
+  assert.equal(audit.spikes.count, 1);
+  assert.equal(audit.spikes.examples[0].time, '2024-01-01 10:00:00');
+  // The high against the previous close of 100.5
+  assert.ok(Math.abs(audit.spikes.examples[0].move_percent - (130 / 100.5 - 1) * 100) < 1e-9);
+});
+
+test('a symbol without downloaded klines is an error', async () => {
+  await assert.rejects(new DataAuditor(config, klineDir).auditSymbol('NOPEUSDT'), /No downloaded klines found for NOPEUSDT/);
+});
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import moment from 'moment';
+import config, { TradingConfig, AVAILABLE_TIMEFRAMES } from './config';
+import { Candle } from './interfaces';
+import { getAllCsvFiles, getKlineCsvDir, KLINE_DIR, parseKlineCsv } from './kline-files';
+import { timeframeToMs } from './metrics';
+
+// Issues are counted in full, only the first few are listed in the report
+const MAX_EXAMPLES = 50;
+
+interface IssueList<T> {
+  count: number;
+  examples: T[];
+}
+
+export interface TimeframeAudit {
+  timeframe: string;
+  files: number;
+  candles: number; // After dropping duplicates
+  first_candle: string | null;
+  last_candle: string | null;
+  rejected_rows: IssueList<{ file: string; line: number; reason: string }>;
+  out_of_order: IssueList<{ file: string; time: string; previous: string }>;
+  duplicates: IssueList<{ time: string; files: string[] }>;
+  gaps: IssueList<{ from: string; to: string; missing_candles: number }> & { missing_candles: number };
+  invalid_ohlc: IssueList<{ time: string; reason: string }>;
+  zero_volume: IssueList<{ time: string }>;
+  spikes: IssueList<{ time: string; move_percent: number }>;
+}
+
+export interface SymbolAudit {
+  symbol: string;
+  audited_at: string;
+  spike_percent: number;
+  timeframes: TimeframeAudit[];
+}
+
+function createIssueList<T>(): IssueList<T> {
+  return { count: 0, examples: [] };
+}
+
+function addIssue<T>(list: IssueList<T>, example: T): void {
+  list.count++;
+  if (list.examples.length < MAX_EXAMPLES) {
+    list.examples.push(example);
+  }
+}
+
+function formatTime(timestamp: number): string {
+  return moment(timestamp).format('YYYY-MM-DD HH:mm:ss');
+}
+
+// Sorts candles by open time and keeps the first candle of every open time
+export function repairCandles(candles: Candle[]): { candles: Candle[]; duplicates: number; reordered: number } {
+  let reordered = 0;
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].openTime < candles[i - 1].openTime) reordered++;
+  }
+
+  // Array.prototype.sort is stable, so the first occurrence stays first
+  const sorted = reordered > 0 ? [...candles].sort((a, b) => a.openTime - b.openTime) : candles;
+  const repaired = sorted.filter((candle, i) => i === 0 || candle.openTime !== sorted[i - 1].openTime);
+
+  return { candles: repaired, duplicates: sorted.length - repaired.length, reordered };
+}
+
+// Checks the downloaded kline archives in kline/<symbol>/<timeframe>/csv and
+// writes what it finds to results/<symbol>/data_audit.json
+export class DataAuditor {
+  constructor(
+    private runConfig: TradingConfig = config,
+    private klineDir: string = KLINE_DIR
+  ) {}
+
+  async auditSymbol(symbol: string): Promise<SymbolAudit> {
+    const timeframes = AVAILABLE_TIMEFRAMES.filter((timeframe) => fs.existsSync(getKlineCsvDir(symbol, timeframe, this.klineDir)));
+    if (timeframes.length === 0) {
+      throw new Error(`No downloaded klines found for ${symbol}, run the fetch command first`);
+    }
+
+    const audit: SymbolAudit = {
+      symbol,
+      audited_at: new Date().toISOString(),
+      spike_percent: this.runConfig.dataQuality.spikePercent,
+      timeframes: [],
+    };
+    for (const timeframe of timeframes) {
+      console.log(`\n🔍 Auditing ${symbol} - ${timeframe}...`);
+      const timeframeAudit = await this.auditTimeframe(symbol, timeframe);
+      this.printSummary(timeframeAudit);
+      audit.timeframes.push(timeframeAudit);
+    }
+
+    await this.saveReport(audit);
+    return audit;
+  }
+
+  async auditTimeframe(symbol: string, timeframe: string): Promise<TimeframeAudit> {
+    const csvFiles = await getAllCsvFiles(symbol, timeframe, this.klineDir);
+    const audit: TimeframeAudit = {
+      timeframe,
+      files: csvFiles.length,
+      candles: 0,
+      first_candle: null,
+      last_candle: null,
+      rejected_rows: createIssueList(),
+      out_of_order: createIssueList(),
+      duplicates: createIssueList(),
+      gaps: { ...createIssueList(), missing_candles: 0 },
+      invalid_ohlc: createIssueList(),
+      zero_volume: createIssueList(),
+      spikes: createIssueList(),
+    };
+
+    // Read in file order, the way the backtester concatenates the months
+    const loaded: Candle[] = [];
+    const fileByOpenTime = new Map<number, string>();
+    for (const csvFile of csvFiles) {
+      const file = path.basename(csvFile);
+      const { candles, report } = await parseKlineCsv(csvFile);
+      report.rejected.forEach(({ line, reason }) => addIssue(audit.rejected_rows, { file, line, reason }));
+
+      for (const candle of candles) {
+        const previous = loaded[loaded.length - 1];
+        if (previous && candle.openTime < previous.openTime) {
+          addIssue(audit.out_of_order, {
+            file,
+            time: formatTime(candle.openTime),
+            previous: formatTime(previous.openTime),
+          });
+        }
+
+        const firstFile = fileByOpenTime.get(candle.openTime);
+        if (firstFile !== undefined) {
+          addIssue(audit.duplicates, { time: formatTime(candle.openTime), files: [firstFile, file] });
+        } else {
+          fileByOpenTime.set(candle.openTime, file);
+        }
+        loaded.push(candle);
+      }
+    }
+
+    const { candles } = repairCandles(loaded);
+    audit.candles = candles.length;
+    if (candles.length > 0) {
+      audit.first_candle = formatTime(candles[0].openTime);
+      audit.last_candle = formatTime(candles[candles.length - 1].openTime);
+    }
+
+    const intervalMs = timeframeToMs(timeframe);
+    const spikePercent = this.runConfig.dataQuality.spikePercent;
+    candles.forEach((candle, i) => {
+      const time = formatTime(candle.openTime);
+
+      if (candle.high < Math.max(candle.open, candle.close)) {
+        addIssue(audit.invalid_ohlc, { time, reason: 'high below open or close' });
+      }
+      if (candle.low > Math.min(candle.open, candle.close)) {
+        addIssue(audit.invalid_ohlc, { time, reason: 'low above open or close' });
+      }
+      if (candle.volume === 0) {
+        addIssue(audit.zero_volume, { time });
+      }
+
+      if (i === 0) return;
+      const previous = candles[i - 1];
+
+      const missing = Math.round((candle.openTime - previous.openTime) / intervalMs) - 1;
+      if (missing > 0) {
+        addIssue(audit.gaps, { from: formatTime(previous.openTime), to: time, missing_candles: missing });
+        audit.gaps.missing_candles += missing;
+      }
+
+      // The furthest wick from the previous close, so single bad ticks show up too
+      const movePercent = Math.max(candle.high / previous.close - 1, 1 - candle.low / previous.close) * 100;
+      if (movePercent > spikePercent) {
+        addIssue(audit.spikes, { time, move_percent: movePercent });
+      }
+    });
+
+    return audit;
+  }
+
+  private printSummary(audit: TimeframeAudit): void {
+    console.log(`${audit.files} files, ${audit.candles} candles from ${audit.first_candle ?? '-'} to ${audit.last_candle ?? '-'}`);
+
+    const issues: Array<[string, number]> = [
+      ['Rejected rows', audit.rejected_rows.count],
+      ['Out of order rows', audit.out_of_order.count],
+      ['Duplicate open times', audit.duplicates.count],
+      [`Gaps (${audit.gaps.missing_candles} missing candles)`, audit.gaps.count],
+      ['Invalid high/low', audit.invalid_ohlc.count],
+      ['Zero volume candles', audit.zero_volume.count],
+      ['Price spikes', audit.spikes.count],
+    ];
+    const found = issues.filter(([, count]) => count > 0);
+    if (found.length === 0) {
+      console.log('✅ No issues found');
+      return;
+    }
+    found.forEach(([label, count]) => console.warn(`⚠️ ${label}: ${count}`));
+  }
+
+  private async saveReport(audit: SymbolAudit): Promise<void> {
+    const symbolDir = path.join(__dirname, `../results/${audit.symbol}`);
+    if (!fs.existsSync(symbolDir)) {
+      await fs.promises.mkdir(symbolDir, { recursive: true });
+    }
+
+    const reportPath = path.join(symbolDir, 'data_audit.json');
+    await fs.promises.writeFile(reportPath, JSON.stringify(audit, null, 2));
+    console.log(`\n📄 Audit report saved to ${reportPath}`);
+  }
+}
@@ -0,0 +1,185 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
+import config, { TradingConfig } from './config';
+import { DataFetcher } from './data-fetcher';
+
+const SYMBOL = 'FALLBACKTEST';
+const MONTH = `${SYMBOL}-1d-2024-03`;
+const DAYS = Array.from({ length: 31 }, (_, i) => String(i + 1).padStart(2, '0'));
+
+// A stand-in for data.binance.vision serving the spot monthly and daily layouts
+let archives = new Map<string, Buffer>();
+const server = http.createServer((req, res) => {
+  const body = archives.get(req.url ?? '');
+  res.writeHead(body ? 200 : 404);
+  res.end(body);
+});
+const tmpDirs: string[] = [];
+
+function klineRow(day: number): string {
+  const openTime = Date.UTC(2024, 2, day);
+  return [openTime, 3500, 3600, 3400, 3550, 1000, openTime + 86_399_999, 3_550_000, 500, 600, 2_130_000, 0].join(',');
+}
+
+function publish(url: string, csvName: string, rows: string[], checksum?: string): void {
+  const zip = new AdmZip();
+  zip.addFile(csvName, Buffer.from(`${rows.join('\n')}\n`));
+  const buffer = zip.toBuffer();
+  archives.set(url, buffer);
+  checksum ??= crypto.createHash('sha256').update(buffer).digest('hex');
+  archives.set(`${url}.CHECKSUM`, Buffer.from(`${checksum}  ${csvName}\n`));
+}
+
+function publishDaily(day: string, checksum?: string): void {
+  const fileName = `${MONTH}-${day}`;
+  publish(`/data/spot/daily/klines/${SYMBOL}/1d/${fileName}.zip`, `${fileName}.csv`, [klineRow(Number(day))], checksum);
+}
+
+function publishMonthly(): void {
+  const rows = DAYS.map((day) => klineRow(Number(day)));
+  publish(`/data/spot/monthly/klines/${SYMBOL}/1d/${MONTH}.zip`, `${MONTH}.csv`, rows);
+}
+
+function createConfig(): TradingConfig {
+  const { port } = server.address() as AddressInfo;
+  return {
+    ...config,
+    market: { ...config.market, type: 'spot', leverage: 1 },
+    backtestMode: { ...config.backtestMode, type: 'single' },
+    singleBacktest: { symbol: SYMBOL, timeframe: '1d' },
+    dataFetch: {
+      ...config.dataFetch,
+      startDate: { year: 2024, month: 3 },
+      endDate: { year: 2024, month: 3 },
+      baseUrl: `http://127.0.0.1:${port}`,
+      dailyFallback: true,
+      retries: { attempts: 1, baseDelayMs: 0 },
+    },
+  };
+}
+
+// Each case starts from an empty archive and its own kline directory
+function setup() {
+  archives = new Map();
+  const klineDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-fetcher-'));
+  tmpDirs.push(klineDir);
+  const timeframeDir = path.join(klineDir, SYMBOL, '1d');
+
+  return {
+    timeframeDir,
+    fetch: () => new DataFetcher(SYMBOL, createConfig(), klineDir).fetchHistoricalData(),
+    listFiles: (dir: 'csv' | 'zip') => fs.readdirSync(path.join(timeframeDir, dir)).sort(),
+    readManifest: (): { files: Record<string, { sha256: string }> } =>
+      JSON.parse(fs.readFileSync(path.join(timeframeDir, 'manifest.json'), 'utf8')),
+  };
+}
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+});
+
+after(() => {
+  server.close();
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+test('fills a month without a monthly archive from the daily archives', async () => {
+  const { fetch, listFiles, readManifest } = setup();
+  DAYS.forEach((day) => publishDaily(day));
+
+  const report = await fetch();
+
+  assert.equal(report.downloaded, 1);
+  assert.deepEqual(report.missing, []);
+  assert.deepEqual(listFiles('csv'), DAYS.map((day) => `${MONTH}-${day}.csv`));
+  assert.deepEqual(Object.keys(readManifest().files).sort(), DAYS.map((day) => `${MONTH}-${day}.zip`));
+});
+
+test('counts daily files left by an earlier run as present, not downloaded', async () => {
+  const { fetch } = setup();
+  DAYS.forEach((day) => publishDaily(day));
+  await fetch();
+
+  const report = await fetch();
+
+  assert.equal(report.present, 1);
+  assert.equal(report.downloaded, 0);
+  assert.deepEqual(report.missing, []);
+});
+
+test('reports the days a month is still missing and fetches them on the next run', async () => {
+  const { fetch, listFiles } = setup();
+  DAYS.filter((day) => day !== '04' && day !== '05').forEach((day) => publishDaily(day));
+
+  const first = await fetch();
+
+  assert.equal(first.downloaded, 0);
+  assert.deepEqual(first.missing, [{ month: MONTH, reason: 'missing_days', days: ['04', '05'] }]);
+  assert.equal(listFiles('csv').length, 29);
+
+  publishDaily('04');
+  publishDaily('05');
+  const second = await fetch();
+
+  assert.equal(second.downloaded, 1);
+  assert.deepEqual(second.missing, []);
+  assert.equal(listFiles('csv').length, 31);
+});
+
+test('a daily archive that fails its checksum is reported and left out of the manifest', async () => {
+  const { fetch, readManifest } = setup();
+  DAYS.forEach((day) => publishDaily(day, day === '10' ? '0'.repeat(64) : undefined));
+
+  const report = await fetch();
+
+  assert.deepEqual(report.missing, [{ month: MONTH, reason: 'missing_days', days: ['10'] }]);
+  assert.equal(readManifest().files[`${MONTH}-10.zip`], undefined);
+});
+
+test('a daily archive that no longer matches the manifest is downloaded again', async () => {
+  const { fetch, timeframeDir, readManifest } = setup();
+  DAYS.forEach((day) => publishDaily(day));
+  await fetch();
+  const zipPath = path.join(timeframeDir, 'zip', `${MONTH}-07.zip`);
+  fs.writeFileSync(zipPath, 'corrupt');
+
+  const report = await fetch();
+
+  assert.equal(report.downloaded, 1);
+  assert.deepEqual(report.missing, []);
+  const sha256 = crypto.createHash('sha256').update(fs.readFileSync(zipPath)).digest('hex');
+  assert.equal(readManifest().files[`${MONTH}-07.zip`].sha256, sha256);
+});
+
+test('replaces the daily files once the monthly archive is published', async () => {
+  const { fetch, listFiles, readManifest } = setup();
+  DAYS.forEach((day) => publishDaily(day));
+  await fetch();
+  publishMonthly();
+
+  const report = await fetch();
+
+  assert.equal(report.downloaded, 1);
+  assert.deepEqual(report.missing, []);
+  assert.deepEqual(listFiles('csv'), [`${MONTH}.csv`]);
+  assert.deepEqual(listFiles('zip'), [`${MONTH}.zip`]);
+  assert.deepEqual(Object.keys(readManifest().files), [`${MONTH}.zip`]);
+});
+
+test('reports the monthly archive as present on the next run', async () => {
+  const { fetch } = setup();
+  publishMonthly();
+  await fetch();
+
+  const report = await fetch();
+
+  assert.equal(report.present, 1);
+  assert.equal(report.downloaded, 0);
+});
@@ -4,6 +4,7 @@ import path from 'path';
 import AdmZip from 'adm-zip';
 import config, { TradingConfig } from './config';
 import crypto from 'crypto';
+import { KLINE_DIR } from './kline-files';
 
 interface DataAvailability {
   symbol: string;
@@ -31,13 +32,53 @@ interface DataAvailability {
   lastUpdated: string;
 }
 
+// One entry per archive in kline/<symbol>/<tf>/manifest.json, keyed by zip file name
+interface ManifestEntry {
+  url: string;
+  sha256: string;
+  size: number;
+  fetched_at: string;
+}
+
+interface Manifest {
+  symbol: string;
+  timeframe: string;
+  files: Record<string, ManifestEntry>;
+}
+
+export interface DownloadReport {
+  symbol: string;
+  timeframe: string;
+  present: number; // Months already on disk and intact
+  downloaded: number;
+  missing: Array<{
+    month: string;
+    reason: 'not_found' | 'checksum_mismatch' | 'failed' | 'missing_days';
+    days?: string[]; // Days of a month filled from daily archives that are still missing
+  }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rate limits, server errors, timeouts and dropped connections are worth another try
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 export class DataFetcher {
-  private baseUrl = 'https://data.binance.vision';
   private timeframe: string;
+  private manifest!: Manifest;
   
   constructor(
     private symbol: string,
-    private runConfig: TradingConfig = config
+    private runConfig: TradingConfig = config,
+    private klineDir: string = KLINE_DIR
   ) {
     this.timeframe = runConfig.backtestMode.type === 'single' 
       ? runConfig.singleBacktest!.timeframe
@@ -46,11 +87,11 @@ export class DataFetcher {
 
   private async createDirectories(): Promise<void> {
     const dirs = [
-      path.join(__dirname, '../kline'),
-      path.join(__dirname, `../kline/${this.symbol}`),
-      path.join(__dirname, `../kline/${this.symbol}/${this.timeframe}`),
-      path.join(__dirname, `../kline/${this.symbol}/${this.timeframe}/zip`),
-      path.join(__dirname, `../kline/${this.symbol}/${this.timeframe}/csv`)
+      this.klineDir,
+      path.join(this.klineDir, this.symbol),
+      this.getTimeframeDir(),
+      path.join(this.getTimeframeDir(), 'zip'),
+      path.join(this.getTimeframeDir(), 'csv')
     ];
 
     for (const dir of dirs) {
@@ -60,11 +101,34 @@ export class DataFetcher {
     }
   }
 
+  private getTimeframeDir(): string {
+    return path.join(this.klineDir, this.symbol, this.timeframe);
+  }
+
+  // Retries with exponential backoff, or the server's Retry-After on a 429
+  private async withRetries<T>(label: string, request: () => Promise<T>): Promise<T> {
+    const { attempts, baseDelayMs } = this.runConfig.dataFetch.retries;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= attempts || !isRetryable(error)) throw error;
+
+        const retryAfter = axios.isAxiosError(error) ? Number(error.response?.headers['retry-after']) : NaN;
+        const delay = retryAfter > 0 ? retryAfter * 1000 : baseDelayMs * 2 ** (attempt - 1);
+        const reason = axios.isAxiosError(error) ? error.response?.status ?? error.code : error;
+        console.warn(`⚠️ ${label} failed (${reason}), retrying in ${delay}ms (${attempt}/${attempts - 1})`);
+        await sleep(delay);
+      }
+    }
+  }
+
   private async downloadFile(url: string, outputPath: string): Promise<void> {
     console.log(`Downloading from: ${url}`);
     
     try {
-      const response = await axios({
+      const response = await this.withRetries(`Download of ${path.basename(url)}`, () => axios({
         method: 'GET',
         url: url,
         responseType: 'arraybuffer',
@@ -72,7 +136,7 @@ export class DataFetcher {
         headers: {
           'User-Agent': 'Mozilla/5.0',
         }
-      });
+      }));
 
       await fs.promises.writeFile(outputPath, response.data);
       console.log(`Successfully downloaded to ${outputPath}`);
@@ -88,9 +152,14 @@ export class DataFetcher {
 
   private async downloadChecksum(url: string): Promise<string> {
     try {
-      const response = await axios.get(`${url}.CHECKSUM`);
+      const response = await this.withRetries(
+        `Checksum of ${path.basename(url)}`,
+        () => axios.get(`${url}.CHECKSUM`, { timeout: 30000 })
+      );
       return response.data.split(' ')[0];
     } catch (error) {
+      // Archives that don't exist have no checksum either
+      if (axios.isAxiosError(error) && error.response?.status === 404) return '';
       if (error instanceof Error) {
         console.warn(`Failed to download checksum for ${url}:`, error.message);
       } else {
@@ -100,14 +169,16 @@ export class DataFetcher {
     }
   }
 
+  private async hashFile(filePath: string): Promise<string> {
+    const fileBuffer = await fs.promises.readFile(filePath);
+    return crypto.createHash('sha256').update(fileBuffer).digest('hex');
+  }
+
   private async verifyChecksum(filePath: string, expectedChecksum: string): Promise<boolean> {
     if (!expectedChecksum) return true;
 
     try {
-      const fileBuffer = await fs.promises.readFile(filePath);
-      const hashSum = crypto.createHash('sha256');
-      hashSum.update(fileBuffer);
-      const calculatedChecksum = hashSum.digest('hex');
+      const calculatedChecksum = await this.hashFile(filePath);
 
       const isValid = calculatedChecksum === expectedChecksum;
       if (!isValid) {
@@ -180,17 +251,167 @@ export class DataFetcher {
     }
   }
 
+  // Monthly archives appear a few days into the next month, daily ones the next day
+  private getArchiveUrl(period: 'monthly' | 'daily', fileName: string): string {
+    const { type, subType } = this.runConfig.market;
+    // Spot archives have no sub type: data/spot/monthly/..., data/futures/um/monthly/...
+    const market = type === 'spot' ? 'spot' : `${type}/${subType}`;
+    return `${this.runConfig.dataFetch.baseUrl}/data/${market}/${period}/klines/${this.symbol}/${this.timeframe}/${fileName}.zip`;
+  }
+
+  private async readManifest(): Promise<Manifest> {
+    const manifestPath = path.join(this.getTimeframeDir(), 'manifest.json');
+    try {
+      return JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+    } catch (error) {
+      if (fs.existsSync(manifestPath)) {
+        console.log(`Invalid manifest for ${this.symbol} - ${this.timeframe}, starting a new one`);
+      }
+      return { symbol: this.symbol, timeframe: this.timeframe, files: {} };
+    }
+  }
+
+  // Written after every archive so an interrupted run picks up where it stopped
+  private async saveManifest(): Promise<void> {
+    const manifestPath = path.join(this.getTimeframeDir(), 'manifest.json');
+    await fs.promises.writeFile(`${manifestPath}.tmp`, JSON.stringify(this.manifest, null, 2));
+    await fs.promises.rename(`${manifestPath}.tmp`, manifestPath);
+  }
+
+  // Downloads, verifies and extracts one archive, downloading it again while the
+  // checksum doesn't match. False when it never matched.
+  private async downloadArchive(period: 'monthly' | 'daily', fileName: string): Promise<boolean> {
+    const zipFileName = `${fileName}.zip`;
+    const fileUrl = this.getArchiveUrl(period, fileName);
+    const zipPath = path.join(this.getTimeframeDir(), 'zip', zipFileName);
+    const { attempts } = this.runConfig.dataFetch.retries;
+
+    console.log(`\nProcessing ${zipFileName}...`);
+    const checksum = await this.downloadChecksum(fileUrl);
+
+    for (let attempt = 1; ; attempt++) {
+      await this.downloadFile(fileUrl, zipPath);
+      if (!checksum || await this.verifyChecksum(zipPath, checksum)) break;
+
+      if (attempt >= attempts) {
+        console.warn(`Skipping ${zipFileName} after ${attempts} checksum mismatches`);
+        return false;
+      }
+      console.warn(`Checksum mismatch for ${zipFileName}, downloading again (${attempt}/${attempts - 1})`);
+    }
+
+    await this.unzipFile(zipPath, path.join(this.getTimeframeDir(), 'csv'));
+
+    this.manifest.files[zipFileName] = {
+      url: fileUrl,
+      sha256: await this.hashFile(zipPath),
+      size: (await fs.promises.stat(zipPath)).size,
+      fetched_at: new Date().toISOString()
+    };
+    await this.saveManifest();
+
+    console.log(`Successfully processed ${zipFileName}`);
+    return true;
+  }
+
+  // A month is present when its CSV is on disk and its archive still matches the manifest.
+  // Files downloaded before the manifest existed are trusted as long as the CSV isn't empty.
+  private async isDownloaded(fileName: string): Promise<boolean> {
+    const csvPath = path.join(this.getTimeframeDir(), 'csv', `${fileName}.csv`);
+    if (!fs.existsSync(csvPath) || (await fs.promises.stat(csvPath)).size === 0) return false;
+
+    const entry = this.manifest.files[`${fileName}.zip`];
+    const zipPath = path.join(this.getTimeframeDir(), 'zip', `${fileName}.zip`);
+    if (!entry || !fs.existsSync(zipPath)) return true;
+
+    const size = (await fs.promises.stat(zipPath)).size;
+    if (size !== entry.size || (await this.hashFile(zipPath)) !== entry.sha256) {
+      console.log(`Corrupt archive ${fileName}.zip, downloading it again`);
+      return false;
+    }
+    return true;
+  }
+
+  // Days of a <symbol>-<tf>-YYYY-MM month that have fully ended in UTC
+  private getDailyFileNames(monthFileName: string): string[] {
+    const match = monthFileName.match(/(\d{4})-(\d{2})$/);
+    if (!match) return [];
+
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2]);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const files: string[] = [];
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      if (Date.UTC(year, month - 1, day) + DAY_MS > Date.now()) break;
+      files.push(`${monthFileName}-${String(day).padStart(2, '0')}`);
+    }
+    return files;
+  }
+
+  // Fills a month from its daily archives, counting the days fetched now, the days an
+  // earlier run left on disk intact and the days that are still missing
+  private async fetchDailyFiles(
+    monthFileName: string
+  ): Promise<{ downloaded: number; present: number; missing: string[] }> {
+    const days = { downloaded: 0, present: 0, missing: [] as string[] };
+
+    for (const fileName of this.getDailyFileNames(monthFileName)) {
+      if (await this.isDownloaded(fileName)) {
+        days.present++;
+        continue;
+      }
+
+      try {
+        if (await this.downloadArchive('daily', fileName)) {
+          days.downloaded++;
+          continue;
+        }
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          console.log(`Daily file ${fileName}.zip not found (not published yet)`);
+        } else if (error instanceof Error) {
+          console.error(`Error processing ${fileName}.zip:`, error.message);
+        } else {
+          console.error(`Error processing ${fileName}.zip:`, error);
+        }
+      }
+      days.missing.push(fileName.slice(-2));
+    }
+
+    return days;
+  }
+
+  // The monthly archive replaces the daily files it covers
+  private async removeDailyFiles(monthFileName: string): Promise<void> {
+    const dailyPattern = new RegExp(`^${monthFileName}-\\d{2}\\.(csv|zip)$`);
+
+    for (const dir of ['csv', 'zip']) {
+      const dirPath = path.join(this.getTimeframeDir(), dir);
+      if (!fs.existsSync(dirPath)) continue;
+
+      const dailyFiles = (await fs.promises.readdir(dirPath)).filter(f => dailyPattern.test(f));
+      for (const file of dailyFiles) {
+        await fs.promises.unlink(path.join(dirPath, file));
+        delete this.manifest.files[file];
+      }
+      if (dir === 'csv' && dailyFiles.length > 0) {
+        console.log(`Replaced ${dailyFiles.length} daily files with ${monthFileName}.csv`);
+      }
+    }
+  }
+
   private getMonthlyFileNames(): string[] {
     const files: string[] = [];
     const startDate = new Date(
-      config.dataFetch.startDate.year, 
-      config.dataFetch.startDate.month - 1  // JavaScript months are 0-based
+      this.runConfig.dataFetch.startDate.year, 
+      this.runConfig.dataFetch.startDate.month - 1  // JavaScript months are 0-based
     );
     
-    const endDate = config.dataFetch.endDate 
+    const endDate = this.runConfig.dataFetch.endDate 
       ? new Date(
-          config.dataFetch.endDate.year,
-          config.dataFetch.endDate.month - 1
+          this.runConfig.dataFetch.endDate.year,
+          this.runConfig.dataFetch.endDate.month - 1
         )
       : new Date();  // Current date if not specified
     
@@ -221,10 +442,7 @@ export class DataFetcher {
     lastAvailable: { year: number; month: number }
   ): Promise<void> {
     try {
-      const dataFilePath = path.join(
-        __dirname,
-        `../kline/${this.symbol}/${this.symbol}_data.json`
-      );
+      const dataFilePath = path.join(this.klineDir, this.symbol, `${this.symbol}_data.json`);
 
       let dataInfo: DataAvailability;
 
@@ -273,7 +491,7 @@ export class DataFetcher {
       dataInfo.lastUpdated = new Date().toISOString();
 
       // Create symbol directory if it doesn't exist
-      const symbolDir = path.join(__dirname, `../kline/${this.symbol}`);
+      const symbolDir = path.join(this.klineDir, this.symbol);
       if (!fs.existsSync(symbolDir)) {
         await fs.promises.mkdir(symbolDir, { recursive: true });
       }
@@ -291,94 +509,36 @@ export class DataFetcher {
     }
   }
 
-  private async checkExistingData(): Promise<boolean> {
-    const csvDir = path.join(
-      __dirname,
-      `../kline/${this.symbol}/${this.timeframe}/csv`
-    );
-
-    // Check if directory exists
-    if (!fs.existsSync(csvDir)) {
-      console.log(`No data directory found for ${this.symbol} - ${this.timeframe}`);
-      return false;
-    }
-
-    const files = await fs.promises.readdir(csvDir);
-    const csvFiles = files.filter(f => f.endsWith('.csv'));
-
-    if (csvFiles.length === 0) {
-      console.log(`No CSV files found for ${this.symbol} - ${this.timeframe}`);
-      return false;
-    }
-
-    // Parse dates from filenames and check if we have all required months
-    const datePattern = new RegExp(`${this.symbol}-${this.timeframe}-(\\d{4})-(\\d{2})`);
-    const availableMonths = new Map<string, boolean>();
-
-    for (const file of csvFiles) {
-      const match = file.match(datePattern);
-      if (match) {
-        const yearMonth = `${match[1]}-${match[2]}`;
-        availableMonths.set(yearMonth, true);
-      }
-    }
-
-    // Check if all required months are present
-    const startDate = new Date(
-      this.runConfig.dataFetch.startDate.year,
-      this.runConfig.dataFetch.startDate.month - 1
-    );
-    const endDate = this.runConfig.dataFetch.endDate
-      ? new Date(
-          this.runConfig.dataFetch.endDate.year,
-          this.runConfig.dataFetch.endDate.month - 1
-        )
-      : new Date();
-
-    let currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const yearMonth = `${currentDate.getFullYear()}-${String(
-        currentDate.getMonth() + 1
-      ).padStart(2, '0')}`;
-      
-      if (!availableMonths.has(yearMonth)) {
-        console.log(`Missing data for ${yearMonth} in ${this.symbol} - ${this.timeframe}`);
-        return false;
-      }
+  async fetchHistoricalData(): Promise<DownloadReport> {
+    console.log(`\nChecking data availability for ${this.symbol} - ${this.timeframe}...`);
+    await this.createDirectories();
+    this.manifest = await this.readManifest();
 
-      // Check if file is empty or corrupted
-      const matchingFile = csvFiles.find(f => f.includes(yearMonth));
-      if (matchingFile) {
-        const filePath = path.join(csvDir, matchingFile);
-        const stats = await fs.promises.stat(filePath);
-        if (stats.size === 0) {
-          console.log(`Empty file found: ${matchingFile}`);
-          return false;
-        }
+    // Only months that are missing or corrupt are downloaded. Months only covered by
+    // daily files count as missing so the monthly archive can replace them.
+    const fileNames = this.getMonthlyFileNames();
+    const report: DownloadReport = {
+      symbol: this.symbol,
+      timeframe: this.timeframe,
+      present: 0,
+      downloaded: 0,
+      missing: []
+    };
+    const pending: string[] = [];
+    for (const fileName of fileNames) {
+      if (await this.isDownloaded(fileName)) {
+        report.present++;
+      } else {
+        pending.push(fileName);
       }
-
-      currentDate.setMonth(currentDate.getMonth() + 1);
     }
 
-    console.log(`✅ Found all required data for ${this.symbol} - ${this.timeframe}`);
-    console.log(`Date range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
-    return true;
-  }
-
-  async fetchHistoricalData(): Promise<void> {
-    console.log(`\nChecking data availability for ${this.symbol} - ${this.timeframe}...`);
-    
-    // First check if we already have the required data
-    if (await this.checkExistingData()) {
+    if (pending.length === 0) {
       console.log('Using existing data - all required files are present');
-      return;
+      return report;
     }
 
-    console.log('Missing or incomplete data, starting download...');
-    await this.createDirectories();
-
-    const basePath = `data/${this.runConfig.market.type}/${this.runConfig.market.subType}/monthly/klines/${this.symbol}/${this.timeframe}`;
-    const fileNames = this.getMonthlyFileNames();
+    console.log(`${pending.length} of ${fileNames.length} months missing or incomplete, starting download...`);
 
     console.log(`
 Download Configuration:
@@ -386,62 +546,77 @@ Download Configuration:
 Symbol: ${this.symbol}
 Market: ${this.runConfig.market.type} ${this.runConfig.market.subType}
 Timeframe: ${this.timeframe}
+Source: ${this.runConfig.dataFetch.baseUrl}
 Start Date: ${this.runConfig.dataFetch.startDate.year}-${this.runConfig.dataFetch.startDate.month}
 End Date: ${this.runConfig.dataFetch.endDate?.year || 'current'}-${this.runConfig.dataFetch.endDate?.month || 'current'}
-Files to check: ${fileNames.length}
+Files to download: ${pending.length}
     `);
 
     let firstAvailable: { year: number; month: number } | null = null;
     let lastAvailable: { year: number; month: number } | null = null;
 
+    const trackAvailability = (fileName: string) => {
+      const match = fileName.match(/(\d{4})-(\d{2})/);
+      if (match) {
+        const year = parseInt(match[1]);
+        const month = parseInt(match[2]);
+
+        if (!firstAvailable || year < firstAvailable.year ||
+            (year === firstAvailable.year && month < firstAvailable.month)) {
+          firstAvailable = { year, month };
+        }
+
+        if (!lastAvailable || year > lastAvailable.year ||
+            (year === lastAvailable.year && month > lastAvailable.month)) {
+          lastAvailable = { year, month };
+        }
+      }
+    };
+
     for (const fileName of fileNames) {
+      if (!pending.includes(fileName)) {
+        trackAvailability(fileName);
+        continue;
+      }
       const zipFileName = `${fileName}.zip`;
-      const fileUrl = `${this.baseUrl}/${basePath}/${zipFileName}`;
-      const zipPath = path.join(
-        __dirname,
-        `../kline/${this.symbol}/${this.timeframe}/zip/${zipFileName}`
-      );
 
       try {
-        console.log(`\nProcessing ${zipFileName}...`);
-        const checksum = await this.downloadChecksum(fileUrl);
-        
-        await this.downloadFile(fileUrl, zipPath);
-
-        if (checksum) {
-          const isValid = await this.verifyChecksum(zipPath, checksum);
-          if (!isValid) {
-            console.warn(`Skipping ${zipFileName} due to checksum mismatch`);
-            continue;
-          }
+        if (!(await this.downloadArchive('monthly', fileName))) {
+          report.missing.push({ month: fileName, reason: 'checksum_mismatch' });
+          continue;
         }
-
-        await this.unzipFile(
-          zipPath,
-          path.join(__dirname, `../kline/${this.symbol}/${this.timeframe}/csv`)
-        );
-
-        console.log(`Successfully processed ${zipFileName}`);
+        await this.removeDailyFiles(fileName);
+        await this.saveManifest();
+        report.downloaded++;
 
         // Update data availability tracking
-        const match = fileName.match(/(\d{4})-(\d{2})/);
-        if (match) {
-          const year = parseInt(match[1]);
-          const month = parseInt(match[2]);
-          
-          if (!firstAvailable || year < firstAvailable.year || 
-              (year === firstAvailable.year && month < firstAvailable.month)) {
-            firstAvailable = { year, month };
-          }
-          
-          if (!lastAvailable || year > lastAvailable.year ||
-              (year === lastAvailable.year && month > lastAvailable.month)) {
-            lastAvailable = { year, month };
-          }
-        }
+        trackAvailability(fileName);
       } catch (error) {
         if (axios.isAxiosError(error) && error.response?.status === 404) {
+          // The current month, or one whose monthly archive isn't out yet
+          if (this.runConfig.dataFetch.dailyFallback) {
+            console.log(`File ${zipFileName} not found, trying daily files`);
+            const days = await this.fetchDailyFiles(fileName);
+            if (days.downloaded + days.present === 0) {
+              report.missing.push({ month: fileName, reason: 'not_found' });
+              continue;
+            }
+
+            console.log(`Using ${days.downloaded + days.present} daily files for ${fileName}, ${days.downloaded} new`);
+            trackAvailability(fileName);
+            // A month with gaps stays in the report until a later run fills them
+            if (days.missing.length > 0) {
+              console.warn(`⚠️ ${fileName} is missing days ${days.missing.join(', ')}`);
+              report.missing.push({ month: fileName, reason: 'missing_days', days: days.missing });
+            } else if (days.downloaded > 0) {
+              report.downloaded++;
+            } else {
+              report.present++;
+            }
+            continue;
+          }
           console.log(`File ${zipFileName} not found (might be a future month or too old)`);
+          report.missing.push({ month: fileName, reason: 'not_found' });
           continue;
         }
         if (error instanceof Error) {
@@ -449,6 +624,7 @@ Files to check: ${fileNames.length}
         } else {
           console.error(`Error processing ${zipFileName}:`, error);
         }
+        report.missing.push({ month: fileName, reason: 'failed' });
       }
     }
 
@@ -457,5 +633,18 @@ Files to check: ${fileNames.length}
     }
 
     console.log('Data download and extraction complete!');
+    this.printReport(report);
+    return report;
+  }
+
+  private printReport(report: DownloadReport): void {
+    console.log(`
+📋 Download report for ${report.symbol} - ${report.timeframe}
+Already present: ${report.present}
+Downloaded: ${report.downloaded}
+Still missing: ${report.missing.length}`);
+    for (const { month, reason, days } of report.missing) {
+      console.log(`  - ${month}: ${reason.replace('_', ' ')}${days ? ` (${days.join(', ')})` : ''}`);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,625 @@
+import fs from 'fs';
+import path from 'path';
+import { BalanceUpdate, Candle, MatchingCandle } from './interfaces';
+import { PerformanceMetrics, parseTimestamp } from './metrics';
+import { findIndexAtOrAfter } from './kline-files';
+
+// The report keeps every candle around a trade and merges the rest into buckets,
+// so its size stays bounded however long the run is
+const MAX_OVERVIEW_BARS = 5000;
+const MAX_TRADE_BARS = 50000; // Shared by all trades, at most TRADE_BARS_PER_TRADE each
+const TRADE_BARS_PER_TRADE = 500;
+const TRADE_PADDING_CANDLES = 10;
+
+type ChartBar = [number, number, number, number, number]; // openTime, open, high, low, close
+
+export interface HtmlReportData {
+  symbol: string;
+  timeframe: string;
+  currency: string;
+  initialBalance: number;
+  candles: Candle[];
+  matchingCandles: MatchingCandle[];
+  balanceHistory: BalanceUpdate[];
+  metrics: PerformanceMetrics;
+}
+
+interface ChartTrade {
+  number: number;
+  side: 'LONG' | 'SHORT';
+  legendTime: number;
+  legendClose: number;
+  upperThreshold: number;
+  lowerThreshold: number;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  exitType: string;
+  stops: Array<[number, number]>; // Stop level from each time onwards
+  partialExits: Array<[number, number]>;
+  trails: number;
+  candles: number;
+  pnl: number;
+  pnlPercent: number;
+}
+
+const METRIC_CARDS: Array<{ label: string; key: keyof PerformanceMetrics; suffix?: string }> = [
+  { label: 'Net PnL', key: 'net_pnl' },
+  { label: 'Return', key: 'return_percent', suffix: '%' },
+  { label: 'Max Drawdown', key: 'max_drawdown_percent', suffix: '%' },
+  { label: 'Trades', key: 'trade_count' },
+  { label: 'Sharpe', key: 'sharpe_ratio' },
+  { label: 'Sortino', key: 'sortino_ratio' },
+  { label: 'Profit Factor', key: 'profit_factor' },
+  { label: 'Expectancy', key: 'expectancy' },
+  { label: 'Exposure', key: 'exposure_percent', suffix: '%' },
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toChartTrades(matchingCandles: MatchingCandle[]): ChartTrade[] {
+  return matchingCandles
+    .filter(c => c.trade_result !== null)
+    .map(c => {
+      const trade = c.trade_result!;
+      const exit = trade.trailing_details.exit_details;
+      const stops: Array<[number, number]> = [
+        [parseTimestamp(trade.entry.time), parseFloat(trade.entry.initial_stop.price)],
+        ...trade.trailing_details.trails.map(
+          trail => [parseTimestamp(trail.time), parseFloat(trail.new_stop_loss)] as [number, number]
+        ),
+      ];
+
+      return {
+        number: trade.trade_Number,
+        side: trade.entry.side,
+        legendTime: parseTimestamp(c.timestamp),
+        legendClose: c.close,
+        upperThreshold: c.upward_movementThreshold,
+        lowerThreshold: c.downward_movementThreshold,
+        entryTime: parseTimestamp(trade.entry.time),
+        entryPrice: trade.entry.price,
+        exitTime: parseTimestamp(exit.time),
+        exitPrice: parseFloat(exit.final_stop_loss_price),
+        exitType: exit.exit_type,
+        stops,
+        partialExits: trade.legs
+          .slice(0, -1)
+          .map(leg => [parseTimestamp(leg.time), leg.price] as [number, number]),
+        trails: exit.total_trails_before_exit,
+        candles: trade.trailing_details.trade_summary.candles_in_trade,
+        pnl: trade.costs.net_pnl,
+        pnlPercent: parseFloat(exit.PNL_in_percent),
+      };
+    });
+}
+
+function mergeCandles(candles: Candle[], from: number, to: number, size: number, bars: ChartBar[]): void {
+  for (let i = from; i < to; i += size) {
+    const end = Math.min(to, i + size);
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i; j < end; j++) {
+      high = Math.max(high, candles[j].high);
+      low = Math.min(low, candles[j].low);
+    }
+    bars.push([candles[i].openTime, candles[i].open, high, low, candles[end - 1].close]);
+  }
+}
+
+// Candles from the legend candle to the exit of each trade at full resolution, up to
+// the per-trade budget, and a decimated overview in between
+export function toChartBars(candles: Candle[], matchingCandles: MatchingCandle[]): ChartBar[] {
+  const windows = matchingCandles
+    .filter(c => c.trade_result !== null)
+    .map(c => ({
+      from: Math.max(0, findIndexAtOrAfter(candles, parseTimestamp(c.timestamp)) - TRADE_PADDING_CANDLES),
+      to: Math.min(
+        candles.length,
+        findIndexAtOrAfter(candles, parseTimestamp(c.trade_result!.trailing_details.exit_details.time)) + TRADE_PADDING_CANDLES + 1
+      ),
+      trades: 1,
+    }))
+    .sort((a, b) => a.from - b.from);
+
+  // Overlapping trades share one window and their budgets
+  const merged: typeof windows = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.from <= last.to) {
+      last.to = Math.max(last.to, window.to);
+      last.trades += window.trades;
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  const barsPerTrade = Math.max(20, Math.min(TRADE_BARS_PER_TRADE, Math.floor(MAX_TRADE_BARS / Math.max(1, windows.length))));
+  const overviewSize = Math.max(1, Math.ceil(candles.length / MAX_OVERVIEW_BARS));
+  const bars: ChartBar[] = [];
+  let index = 0;
+  for (const window of merged) {
+    mergeCandles(candles, index, window.from, overviewSize, bars);
+    const size = Math.max(1, Math.ceil((window.to - window.from) / (barsPerTrade * window.trades)));
+    mergeCandles(candles, window.from, window.to, size, bars);
+    index = window.to;
+  }
+  mergeCandles(candles, index, candles.length, overviewSize, bars);
+
+  return bars;
+}
+
+function toEquitySeries(data: HtmlReportData): { equity: Array<[number, number]>; drawdown: Array<[number, number]> } {
+  const start = data.candles.length > 0 ? data.candles[0].openTime : 0;
+  const equity: Array<[number, number]> = [
+    [start, data.initialBalance],
+    ...data.balanceHistory.map(update => [parseTimestamp(update.timestamp), update.balance] as [number, number]),
+  ];
+
+  let peak = data.initialBalance;
+  const drawdown = equity.map(([time, balance]) => {
+    peak = Math.max(peak, balance);
+    return [time, peak > 0 ? ((balance - peak) / peak) * 100 : 0] as [number, number];
+  });
+
+  return { equity, drawdown };
+}
+
+function formatMetric(value: number | null, suffix = ''): string {
+  return value === null ? 'n/a' : `${value.toFixed(2)}${suffix}`;
+}
+
+export function renderHtmlReport(data: HtmlReportData): string {
+  const title = `${data.symbol} ${data.timeframe} backtest report`;
+  const payload = {
+    currency: data.currency,
+    candles: toChartBars(data.candles, data.matchingCandles),
+    trades: toChartTrades(data.matchingCandles),
+    ...toEquitySeries(data),
+  };
+  // Keep the embedded JSON from closing the script tag early
+  const json = JSON.stringify(payload).replace(/</g, '\\u003c');
+
+  const cards = METRIC_CARDS.map(card => `
+      <div class="card"><span>${card.label}</span><strong>${
+        escapeHtml(formatMetric(data.metrics[card.key] as number | null, card.suffix))
+      }</strong></div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <section class="cards">${cards}
+  </section>
+  <section>
+    <div class="toolbar">
+      <h2>Price</h2>
+      <span class="hint">Scroll to zoom, drag to pan, click a trade row to jump to it</span>
+      <button id="reset-zoom">Reset zoom</button>
+    </div>
+    <div class="chart-wrap">
+      <canvas id="price-chart" class="chart tall"></canvas>
+      <div id="tooltip"></div>
+    </div>
+    <div class="legend">
+      <span class="key legend-candle">Legend candle</span>
+      <span class="key entry-long">Long entry</span>
+      <span class="key entry-short">Short entry</span>
+      <span class="key stop">Trailing stop</span>
+      <span class="key exit">Exit</span>
+      <span class="key liquidation">Liquidation</span>
+    </div>
+  </section>
+  <section>
+    <h2>Equity (${escapeHtml(data.currency)})</h2>
+    <canvas id="equity-chart" class="chart"></canvas>
+    <h2>Drawdown (%)</h2>
+    <canvas id="drawdown-chart" class="chart"></canvas>
+  </section>
+  <section>
+    <h2>Trades</h2>
+    <table id="trades">
+      <thead><tr>
+        <th data-key="number">#</th>
+        <th data-key="side">Side</th>
+        <th data-key="legendTime">Legend candle</th>
+        <th data-key="entryTime">Entry time</th>
+        <th data-key="entryPrice">Entry price</th>
+        <th data-key="exitTime">Exit time</th>
+        <th data-key="exitPrice">Exit price</th>
+        <th data-key="exitType">Exit type</th>
+        <th data-key="trails">Trails</th>
+        <th data-key="candles">Candles</th>
+        <th data-key="pnl">PnL</th>
+        <th data-key="pnlPercent">PnL %</th>
+      </tr></thead>
+      <tbody></tbody>
+    </table>
+  </section>
+<script type="application/json" id="report-data">${json}</script>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export async function saveHtmlReport(data: HtmlReportData, reportFile: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(reportFile), { recursive: true });
+  await fs.promises.writeFile(reportFile, renderHtmlReport(data));
+  console.log(`HTML report saved to ${reportFile}`);
+}
+
+const REPORT_STYLE = `
+  body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 24px; background: #0f1419; color: #d6dde6; }
+  h1 { font-size: 22px; margin: 0 0 16px; }
+  h2 { font-size: 16px; margin: 16px 0 8px; }
+  section { margin-bottom: 24px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+  .card { background: #1a2129; border-radius: 6px; padding: 10px 14px; min-width: 110px; }
+  .card span { display: block; font-size: 12px; color: #8a96a3; }
+  .card strong { font-size: 18px; }
+  .toolbar { display: flex; align-items: center; gap: 16px; }
+  .hint { font-size: 12px; color: #8a96a3; flex: 1; }
+  button { background: #25303b; color: inherit; border: 1px solid #3a4654; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+  .chart-wrap { position: relative; }
+  .chart { width: 100%; height: 180px; display: block; background: #131a21; border-radius: 6px; }
+  .chart.tall { height: 460px; cursor: grab; }
+  #tooltip { position: absolute; top: 8px; left: 12px; font-size: 12px; color: #8a96a3; pointer-events: none; }
+  .legend { display: flex; flex-wrap: wrap; gap: 16px; font-size: 12px; margin-top: 6px; }
+  .key::before { content: ''; display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+  .legend-candle::before { background: #f2c94c; }
+  .entry-long::before { background: #27ae60; }
+  .entry-short::before { background: #eb5757; }
+  .stop::before { background: #f2994a; }
+  .exit::before { background: #56ccf2; }
+  .liquidation::before { background: #bb6bd9; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #25303b; text-align: right; white-space: nowrap; }
+  th { cursor: pointer; user-select: none; color: #8a96a3; position: sticky; top: 0; background: #0f1419; }
+  th.asc::after { content: ' \\25B2'; }
+  th.desc::after { content: ' \\25BC'; }
+  tbody tr { cursor: pointer; }
+  tbody tr:hover { background: #1a2129; }
+  .win { color: #27ae60; }
+  .loss { color: #eb5757; }
+`;
+
+// Plain browser script, the report must open offline without any chart library
+const REPORT_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('report-data').textContent);
+  var candles = data.candles;
+  var trades = data.trades;
+  var view = { from: 0, to: candles.length };
+  var PAD = { left: 8, right: 72, top: 12, bottom: 22 };
+  var COLORS = {
+    up: '#27ae60', down: '#eb5757', grid: '#25303b', text: '#8a96a3', legend: '#f2c94c',
+    stop: '#f2994a', exit: '#56ccf2', liquidation: '#bb6bd9', threshold: '#4f5b66'
+  };
+
+  function pad2(n) { return n < 10 ? '0' + n : '' + n; }
+  function formatTime(t) {
+    var d = new Date(t);
+    return d.getFullYear() + '-' + pad2(d.getMonth() + 1) + '-' + pad2(d.getDate()) + ' ' +
+      pad2(d.getHours()) + ':' + pad2(d.getMinutes());
+  }
+  function formatNumber(v) {
+    var abs = Math.abs(v);
+    return v.toFixed(abs >= 1000 ? 2 : abs >= 1 ? 4 : 6);
+  }
+
+  function setupCanvas(canvas) {
+    var ratio = window.devicePixelRatio || 1;
+    var width = canvas.clientWidth;
+    var height = canvas.clientHeight;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    var ctx = canvas.getContext('2d');
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = '11px sans-serif';
+    return { ctx: ctx, width: width, height: height };
+  }
+
+  function indexAtOrAfter(time) {
+    var low = 0, high = candles.length;
+    while (low < high) {
+      var mid = (low + high) >> 1;
+      if (candles[mid][0] < time) low = mid + 1; else high = mid;
+    }
+    return low;
+  }
+
+  function drawAxes(ctx, width, height, t0, t1, min, max, format) {
+    ctx.strokeStyle = COLORS.grid;
+    ctx.fillStyle = COLORS.text;
+    ctx.lineWidth = 1;
+    for (var i = 0; i <= 4; i++) {
+      var y = PAD.top + (height - PAD.top - PAD.bottom) * i / 4;
+      ctx.beginPath(); ctx.moveTo(PAD.left, y); ctx.lineTo(width - PAD.right, y); ctx.stroke();
+      ctx.fillText(format(max - (max - min) * i / 4), width - PAD.right + 6, y + 4);
+    }
+    for (var j = 0; j <= 4; j++) {
+      var x = PAD.left + (width - PAD.left - PAD.right) * j / 4;
+      var label = formatTime(t0 + (t1 - t0) * j / 4);
+      ctx.fillText(label, Math.min(x, width - PAD.right - ctx.measureText(label).width), height - 6);
+    }
+  }
+
+  // Merge candles into buckets so a long history still renders about one bar per 3px
+  function bucketCandles(from, to, plotWidth) {
+    var size = Math.max(1, Math.ceil((to - from) / Math.max(1, Math.floor(plotWidth / 3))));
+    var bars = [];
+    for (var i = from; i < to; i += size) {
+      var end = Math.min(to, i + size);
+      var high = -Infinity, low = Infinity;
+      for (var j = i; j < end; j++) {
+        if (candles[j][2] > high) high = candles[j][2];
+        if (candles[j][3] < low) low = candles[j][3];
+      }
+      bars.push([candles[i][0], candles[i][1], high, low, candles[end - 1][4]]);
+    }
+    return bars;
+  }
+
+  var priceScale = null;
+
+  function drawPriceChart() {
+    var canvas = document.getElementById('price-chart');
+    var s = setupCanvas(canvas);
+    var ctx = s.ctx;
+    if (candles.length === 0 || view.to <= view.from) return;
+
+    var plotWidth = s.width - PAD.left - PAD.right;
+    var plotHeight = s.height - PAD.top - PAD.bottom;
+    var step = candles.length > 1 ? candles[candles.length - 1][0] - candles[candles.length - 2][0] : 60000;
+    var t0 = candles[view.from][0];
+    var t1 = view.to < candles.length ? candles[view.to][0] : candles[view.to - 1][0] + step;
+    var bars = bucketCandles(view.from, view.to, plotWidth);
+
+    var min = Infinity, max = -Infinity;
+    bars.forEach(function (bar) { if (bar[3] < min) min = bar[3]; if (bar[2] > max) max = bar[2]; });
+    var margin = (max - min) * 0.05 || max * 0.01 || 1;
+    min -= margin; max += margin;
+
+    function x(t) { return PAD.left + (t - t0) / (t1 - t0) * plotWidth; }
+    function y(p) { return PAD.top + (max - p) / (max - min) * plotHeight; }
+    priceScale = { t0: t0, t1: t1, plotWidth: plotWidth };
+
+    drawAxes(ctx, s.width, s.height, t0, t1, min, max, formatNumber);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(PAD.left, PAD.top, plotWidth, plotHeight);
+    ctx.clip();
+
+    // Bars cover different spans where the report merged candles, so size each by its own
+    bars.forEach(function (bar, i) {
+      var next = i + 1 < bars.length ? bars[i + 1][0] : t1;
+      var barWidth = Math.max(1, (x(next) - x(bar[0])) * 0.7);
+      var cx = (x(bar[0]) + x(next)) / 2;
+      var color = bar[4] >= bar[1] ? COLORS.up : COLORS.down;
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.beginPath(); ctx.moveTo(cx, y(bar[2])); ctx.lineTo(cx, y(bar[3])); ctx.stroke();
+      var top = y(Math.max(bar[1], bar[4]));
+      ctx.fillRect(cx - barWidth / 2, top, barWidth, Math.max(1, y(Math.min(bar[1], bar[4])) - top));
+    });
+
+    trades.forEach(function (trade) {
+      if (trade.exitTime < t0 || trade.legendTime > t1) return;
+
+      // Entry thresholds set by the legend candle
+      ctx.setLineDash([2, 3]);
+      ctx.strokeStyle = COLORS.threshold;
+      [trade.upperThreshold, trade.lowerThreshold].forEach(function (level) {
+        ctx.beginPath(); ctx.moveTo(x(trade.legendTime), y(level)); ctx.lineTo(x(trade.entryTime), y(level)); ctx.stroke();
+      });
+
+      // Trailing stop as a step line from entry to exit
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = COLORS.stop;
+      ctx.beginPath();
+      trade.stops.forEach(function (stop, i) {
+        var next = i + 1 < trade.stops.length ? trade.stops[i + 1][0] : trade.exitTime;
+        if (i === 0) ctx.moveTo(x(stop[0]), y(stop[1])); else ctx.lineTo(x(stop[0]), y(stop[1]));
+        ctx.lineTo(x(next), y(stop[1]));
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Legend candle
+      ctx.fillStyle = COLORS.legend;
+      var lx = x(trade.legendTime), ly = y(trade.legendClose);
+      ctx.beginPath(); ctx.moveTo(lx, ly - 5); ctx.lineTo(lx + 5, ly); ctx.lineTo(lx, ly + 5); ctx.lineTo(lx - 5, ly); ctx.fill();
+
+      // Entry triangle points in the trade direction
+      var ex = x(trade.entryTime), ey = y(trade.entryPrice);
+      var dir = trade.side === 'LONG' ? 1 : -1;
+      ctx.fillStyle = trade.side === 'LONG' ? COLORS.up : COLORS.down;
+      ctx.beginPath(); ctx.moveTo(ex, ey - 7 * dir); ctx.lineTo(ex + 6, ey + 4 * dir); ctx.lineTo(ex - 6, ey + 4 * dir); ctx.fill();
+
+      // Partial exits are smaller crosses
+      ctx.strokeStyle = COLORS.exit;
+      trade.partialExits.forEach(function (partial) {
+        var px = x(partial[0]), py = y(partial[1]);
+        ctx.beginPath(); ctx.moveTo(px - 3, py - 3); ctx.lineTo(px + 3, py + 3); ctx.moveTo(px + 3, py - 3); ctx.lineTo(px - 3, py + 3); ctx.stroke();
+      });
+
+      // Exit cross
+      var xx = x(trade.exitTime), xy = y(trade.exitPrice);
+      ctx.strokeStyle = trade.exitType === 'LIQUIDATION' ? COLORS.liquidation : COLORS.exit;
+      ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(xx - 5, xy - 5); ctx.lineTo(xx + 5, xy + 5); ctx.moveTo(xx + 5, xy - 5); ctx.lineTo(xx - 5, xy + 5); ctx.stroke();
+      ctx.lineWidth = 1;
+    });
+    ctx.restore();
+  }
+
+  function drawSeriesChart(id, points, color, format) {
+    var canvas = document.getElementById(id);
+    var s = setupCanvas(canvas);
+    var ctx = s.ctx;
+    if (points.length === 0 || candles.length === 0) return;
+
+    var plotWidth = s.width - PAD.left - PAD.right;
+    var plotHeight = s.height - PAD.top - PAD.bottom;
+    var t0 = candles[0][0];
+    var t1 = Math.max(candles[candles.length - 1][0], points[points.length - 1][0]);
+    var min = Infinity, max = -Infinity;
+    points.forEach(function (p) { if (p[1] < min) min = p[1]; if (p[1] > max) max = p[1]; });
+    if (min === max) { min -= 1; max += 1; }
+
+    function x(t) { return PAD.left + (t - t0) / ((t1 - t0) || 1) * plotWidth; }
+    function y(v) { return PAD.top + (max - v) / (max - min) * plotHeight; }
+
+    drawAxes(ctx, s.width, s.height, t0, t1, min, max, format);
+
+    // Shade the range shown in the price chart
+    if (view.to > view.from) {
+      ctx.fillStyle = 'rgba(86, 204, 242, 0.08)';
+      var vx = x(candles[view.from][0]);
+      ctx.fillRect(vx, PAD.top, Math.max(1, x(candles[view.to - 1][0]) - vx), plotHeight);
+    }
+
+    // Balance only changes when a trade closes, so draw it as steps
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    points.forEach(function (p, i) {
+      if (i === 0) ctx.moveTo(x(p[0]), y(p[1])); else { ctx.lineTo(x(p[0]), y(points[i - 1][1])); ctx.lineTo(x(p[0]), y(p[1])); }
+    });
+    ctx.lineTo(x(t1), y(points[points.length - 1][1]));
+    ctx.stroke();
+    ctx.lineWidth = 1;
+  }
+
+  function drawAll() {
+    drawPriceChart();
+    drawSeriesChart('equity-chart', data.equity, COLORS.exit, function (v) { return v.toFixed(2); });
+    drawSeriesChart('drawdown-chart', data.drawdown, COLORS.down, function (v) { return v.toFixed(2) + '%'; });
+  }
+
+  function setView(from, to) {
+    var minSpan = Math.min(20, candles.length);
+    from = Math.max(0, Math.floor(from));
+    to = Math.min(candles.length, Math.ceil(to));
+    if (to - from < minSpan) {
+      var center = (from + to) / 2;
+      from = Math.max(0, Math.floor(center - minSpan / 2));
+      to = Math.min(candles.length, from + minSpan);
+    }
+    view.from = from;
+    view.to = to;
+    drawAll();
+  }
+
+  var priceCanvas = document.getElementById('price-chart');
+  var tooltip = document.getElementById('tooltip');
+  var drag = null;
+
+  function indexAtX(clientX) {
+    var rect = priceCanvas.getBoundingClientRect();
+    var ratio = (clientX - rect.left - PAD.left) / priceScale.plotWidth;
+    return view.from + ratio * (view.to - view.from);
+  }
+
+  priceCanvas.addEventListener('wheel', function (event) {
+    if (!priceScale) return;
+    event.preventDefault();
+    var anchor = indexAtX(event.clientX);
+    var factor = event.deltaY > 0 ? 1.25 : 0.8;
+    setView(anchor - (anchor - view.from) * factor, anchor + (view.to - anchor) * factor);
+  }, { passive: false });
+
+  priceCanvas.addEventListener('mousedown', function (event) {
+    drag = { x: event.clientX, from: view.from, to: view.to };
+  });
+  window.addEventListener('mouseup', function () { drag = null; });
+  priceCanvas.addEventListener('mousemove', function (event) {
+    if (!priceScale) return;
+    if (drag) {
+      var shift = (drag.x - event.clientX) / priceScale.plotWidth * (drag.to - drag.from);
+      shift = Math.max(-drag.from, Math.min(candles.length - drag.to, shift));
+      setView(drag.from + shift, drag.to + shift);
+      return;
+    }
+    var candle = candles[Math.max(0, Math.min(candles.length - 1, Math.floor(indexAtX(event.clientX))))];
+    tooltip.textContent = formatTime(candle[0]) + '  O ' + formatNumber(candle[1]) + '  H ' + formatNumber(candle[2]) +
+      '  L ' + formatNumber(candle[3]) + '  C ' + formatNumber(candle[4]);
+  });
+  priceCanvas.addEventListener('mouseleave', function () { tooltip.textContent = ''; });
+  document.getElementById('reset-zoom').addEventListener('click', function () { setView(0, candles.length); });
+
+  // Sortable trade table
+  var sort = { key: 'number', asc: true };
+  var columns = [
+    function (t) { return t.number; },
+    function (t) { return t.side; },
+    function (t) { return formatTime(t.legendTime); },
+    function (t) { return formatTime(t.entryTime); },
+    function (t) { return formatNumber(t.entryPrice); },
+    function (t) { return formatTime(t.exitTime); },
+    function (t) { return formatNumber(t.exitPrice); },
+    function (t) { return t.exitType; },
+    function (t) { return t.trails; },
+    function (t) { return t.candles; },
+    function (t) { return t.pnl.toFixed(data.currency === 'USDT' ? 2 : 6) + ' ' + data.currency; },
+    function (t) { return t.pnlPercent.toFixed(2) + '%'; }
+  ];
+
+  function renderTable() {
+    var rows = trades.slice().sort(function (a, b) {
+      var va = a[sort.key], vb = b[sort.key];
+      var diff = typeof va === 'string' ? va.localeCompare(vb) : va - vb;
+      return sort.asc ? diff : -diff;
+    });
+    var body = document.querySelector('#trades tbody');
+    body.innerHTML = '';
+    rows.forEach(function (trade) {
+      var tr = document.createElement('tr');
+      tr.className = trade.pnl > 0 ? 'win' : 'loss';
+      columns.forEach(function (column) {
+        var td = document.createElement('td');
+        td.textContent = column(trade);
+        tr.appendChild(td);
+      });
+      tr.addEventListener('click', function () {
+        var from = indexAtOrAfter(trade.legendTime);
+        var to = indexAtOrAfter(trade.exitTime);
+        var padding = Math.max(10, Math.round((to - from) * 0.3));
+        setView(from - padding, to + padding + 1);
+        priceCanvas.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      });
+      body.appendChild(tr);
+    });
+    document.querySelectorAll('#trades th').forEach(function (th) {
+      th.className = th.getAttribute('data-key') === sort.key ? (sort.asc ? 'asc' : 'desc') : '';
+    });
+  }
+
+  document.querySelectorAll('#trades th').forEach(function (th) {
+    th.addEventListener('click', function () {
+      var key = th.getAttribute('data-key');
+      sort = { key: key, asc: sort.key === key ? !sort.asc : true };
+      renderTable();
+    });
+  });
+
+  window.addEventListener('resize', drawAll);
+  renderTable();
+  drawAll();
+})();
+`;
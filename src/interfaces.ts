@@ -6,6 +6,11 @@ export interface Candle {
   close: number;
   volume: number;
   closeTime: number;
+  // Extra Binance kline columns, absent for sources that don't have them
+  quoteVolume?: number;
+  trades?: number;
+  takerBuyVolume?: number;
+  takerBuyQuoteVolume?: number;
 }
 
 export interface Pair {
@@ -22,12 +27,74 @@ export interface TrailingStopUpdate {
   profit_at_update: number;
 }
 
+export type TradeExitType =
+  | 'TRAILING_STOP'
+  | 'LIQUIDATION'
+  | 'REVERSED'
+  | 'TAKE_PROFIT'
+  | 'TIME_EXIT'
+  | 'OPEN_AT_END' // Still open when the data ran out, marked to market at the last close
+  | 'TIMEOUT'; // Still open after maxLookForwardCandles with time exits disabled
+
+// How the typical candle size of the lookback is measured, in percent
+export type BaselineEstimator = 'mean' | 'median' | 'ema' | 'atr' | 'stddev' | 'percentile';
+
+export type IntrabarPolicy = 'pessimistic' | 'optimistic' | 'ohlc_path' | 'lower_timeframe';
+
+// A candle that touched two levels whose order decides the outcome
+export interface IntrabarResolution {
+  time: string;
+  event: 'entry' | 'exit';
+  decided_by: IntrabarPolicy; // lower_timeframe falls back to ohlc_path without data
+  outcome: string;
+}
+
+// Part of a position closed before the final exit, e.g. by a take-profit target
+export interface PartialExit {
+  price: number;
+  time: string;
+  type: TradeExitType;
+  fraction: number; // Share of the original position size
+  candles_until_exit: number;
+  exit_candle?: Candle;
+}
+
 export interface TradeExit {
   price: number;
   time: string;
-  type: 'TRAILING_STOP';
+  type: TradeExitType;
   candles_until_exit: number;
   trailing_stops: TrailingStopUpdate[];
+  exit_candle?: Candle;
+  resolutions?: IntrabarResolution[];
+  partial_exits?: PartialExit[];
+  remaining_fraction?: number; // Share closed by this final exit, 1 without partial exits
+}
+
+export interface TradeLeg {
+  leg: number;
+  exit_type: TradeExitType;
+  time: string;
+  price: number;
+  size: number;
+  fraction: number;
+  pnl: number;
+  pnl_percentage: number;
+  costs: TradeCosts;
+}
+
+export interface TradeCosts {
+  entry_fill_price: number;
+  exit_fill_price: number;
+  gross_pnl: number;
+  entry_fee: number;
+  exit_fee: number;
+  total_fees: number;
+  slippage: number;
+  funding: number;
+  funding_events: number;
+  liquidation_fee: number; // Remaining margin forfeited on liquidation
+  net_pnl: number;
 }
 
 export interface TradeResult {
@@ -57,7 +124,7 @@ export interface BalanceUpdate {
   timestamp: string;
   balance: number;
   trade_pnl: number;
-  trade_type: 'TRAILING_STOP';
+  trade_type: TradeExitType;
 }
 
 export interface MatchingCandle {
@@ -67,6 +134,8 @@ export interface MatchingCandle {
   movement: number;
   dynamicThreshold: number;
   averageMovement: number;
+  baselineEstimator: BaselineEstimator;
+  baselineMovement: number; // What dynamicThreshold is a multiple of, averageMovement for 'mean'
   numPreviousCandles: number;
   upward_movementThreshold: number;
   downward_movementThreshold: number;
@@ -83,6 +152,18 @@ export interface MatchingCandle {
   trade_result: TradeDetailsResult | null;
 }
 
+// A legend candle whose entry thresholds were never crossed
+export interface UntriggeredSignal {
+  timestamp: string;
+  close: number;
+  movement: number;
+  dynamicThreshold: number;
+  upward_movementThreshold: number;
+  downward_movementThreshold: number;
+  candles_checked: number;
+  reason: 'NO_CROSS' | 'DATA_ENDED';
+}
+
 export interface TradeDetails {
   timestamp: string;
   entry: {
@@ -190,6 +271,7 @@ export interface TradeDetailsResult {
     }>;
     exit_details: {
       time: string;
+      exit_type: TradeExitType;
       exit_reason: string;
       final_stop_loss_price: string;
       total_trails_before_exit: number;
@@ -201,9 +283,27 @@ export interface TradeDetailsResult {
       initialStoploss: string;
       numberOfTrails: number;
       final_stop_loss_price: string;
+      candles_in_trade: number;
       PNL_in_percent: string;
       PNL: string;
     };
   };
+  position: {
+    sizing_mode: string;
+    size: number;
+    notional: number;
+    equity_at_entry: number;
+    leverage: number;
+    margin_mode: 'isolated' | 'cross';
+    margin: number;
+    liquidation_price: number | null;
+  };
+  legs: TradeLeg[];
+  costs: TradeCosts;
+  intrabar: {
+    policy: IntrabarPolicy;
+    needed_resolution: boolean;
+    resolutions: IntrabarResolution[];
+  };
   balance_after_trade: number;
 } 
\ No newline at end of file
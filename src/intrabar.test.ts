@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { Candle, IntrabarPolicy } from './interfaces';
+import { IntrabarResolver } from './intrabar';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function candle(openTime: number, durationMs: number, open: number, high: number, low: number, close: number): Candle {
+  return { openTime, open, high, low, close, volume: 1, closeTime: openTime + durationMs - 1 };
+}
+
+// Both bars reach 110 and 95, they only differ in direction
+const BULLISH = candle(0, HOUR_MS, 100, 110, 95, 108);
+const BEARISH = candle(0, HOUR_MS, 100, 110, 95, 97);
+
+function createResolver(policy: IntrabarPolicy, lowerCandles: Candle[] = []): IntrabarResolver {
+  const runConfig: TradingConfig = {
+    ...config,
+    trade: { ...config.trade, intrabar: { policy, lowerTimeframe: '1m' } },
+  };
+  return new IntrabarResolver(async () => lowerCandles, runConfig);
+}
+
+test('ohlc_path walks a bullish bar low first and a bearish bar high first', async () => {
+  const resolver = createResolver('ohlc_path');
+
+  // Long with the stop at 96 and the next trigger at 109
+  assert.deepEqual(await resolver.resolveExitOrder(BULLISH, 'LONG', 96, 109), { triggerFirst: false, decidedBy: 'ohlc_path' });
+  assert.deepEqual(await resolver.resolveExitOrder(BEARISH, 'LONG', 96, 109), { triggerFirst: true, decidedBy: 'ohlc_path' });
+
+  // Short with the stop at 109 and the next trigger at 96
+  assert.deepEqual(await resolver.resolveExitOrder(BULLISH, 'SHORT', 109, 96), { triggerFirst: true, decidedBy: 'ohlc_path' });
+  assert.deepEqual(await resolver.resolveExitOrder(BEARISH, 'SHORT', 109, 96), { triggerFirst: false, decidedBy: 'ohlc_path' });
+
+  // Entry thresholds at 105 and 98: the side whose threshold the path reaches first
+  assert.deepEqual(await resolver.resolveEntry(BULLISH, 105, 98), { side: 'SHORT', decidedBy: 'ohlc_path' });
+  assert.deepEqual(await resolver.resolveEntry(BEARISH, 105, 98), { side: 'LONG', decidedBy: 'ohlc_path' });
+});
+
+test('pessimistic and optimistic ignore the bar direction for exits', async () => {
+  for (const bar of [BULLISH, BEARISH]) {
+    assert.equal((await createResolver('pessimistic').resolveExitOrder(bar, 'LONG', 96, 109)).triggerFirst, false);
+    assert.equal((await createResolver('optimistic').resolveExitOrder(bar, 'LONG', 96, 109)).triggerFirst, true);
+  }
+});
+
+test('pessimistic and optimistic pick the entry side by the close', async () => {
+  // Closing at 108: a long from 105 is up 3, a short from 98 is down 10
+  assert.equal((await createResolver('pessimistic').resolveEntry(BULLISH, 105, 98)).side, 'SHORT');
+  assert.equal((await createResolver('optimistic').resolveEntry(BULLISH, 105, 98)).side, 'LONG');
+});
+
+test('lower_timeframe follows the first sub-candle that reaches a level', async () => {
+  // A bullish hour whose minutes rally to 110 before dipping to 95
+  const minutes = [
+    candle(0, MINUTE_MS, 100, 101, 99, 100),
+    candle(MINUTE_MS, MINUTE_MS, 100, 110, 100, 109),
+    candle(2 * MINUTE_MS, MINUTE_MS, 109, 109, 95, 96),
+    candle(3 * MINUTE_MS, MINUTE_MS, 96, 108, 96, 108),
+  ];
+  const resolver = createResolver('lower_timeframe', minutes);
+
+  assert.deepEqual(await resolver.resolveExitOrder(BULLISH, 'LONG', 96, 109), { triggerFirst: true, decidedBy: 'lower_timeframe' });
+  assert.deepEqual(await resolver.resolveEntry(BULLISH, 105, 98), { side: 'LONG', decidedBy: 'lower_timeframe' });
+});
+
+test('lower_timeframe falls back to ohlc_path when a sub-candle hits both levels', async () => {
+  const resolver = createResolver('lower_timeframe', [candle(0, MINUTE_MS, 100, 110, 95, 97)]);
+
+  assert.deepEqual(await resolver.resolveExitOrder(BULLISH, 'LONG', 96, 109), { triggerFirst: true, decidedBy: 'ohlc_path' });
+});
+
+test('lower_timeframe falls back to ohlc_path without sub-candles', async () => {
+  const resolver = createResolver('lower_timeframe', [candle(HOUR_MS, MINUTE_MS, 100, 110, 95, 97)]);
+
+  assert.deepEqual(await resolver.resolveExitOrder(BULLISH, 'LONG', 96, 109), { triggerFirst: false, decidedBy: 'ohlc_path' });
+});
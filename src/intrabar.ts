@@ -0,0 +1,98 @@
+import config, { TradingConfig } from './config';
+import { Candle, IntrabarPolicy } from './interfaces';
+import { findIndexAtOrAfter } from './kline-files';
+
+type Side = 'LONG' | 'SHORT';
+
+// The usual path guess: a bullish candle dips first (O-L-H-C), a bearish one rallies first (O-H-L-C)
+function highComesFirst(candle: Candle): boolean {
+  return candle.close < candle.open;
+}
+
+export class IntrabarResolver {
+  private lowerCandles: Candle[] | null = null;
+
+  constructor(
+    private loadLowerCandles: () => Promise<Candle[]>,
+    private runConfig: TradingConfig = config
+  ) {}
+
+  get policy(): IntrabarPolicy {
+    return this.runConfig.trade.intrabar.policy;
+  }
+
+  // Both entry thresholds were crossed in one candle, decide which side filled first
+  async resolveEntry(
+    candle: Candle,
+    upperThreshold: number,
+    lowerThreshold: number
+  ): Promise<{ side: Side; decidedBy: IntrabarPolicy }> {
+    switch (this.policy) {
+      case 'pessimistic':
+      case 'optimistic': {
+        // Judge each side by where the candle closed after the fill
+        const longResult = candle.close - upperThreshold;
+        const shortResult = lowerThreshold - candle.close;
+        const longIsWorse = longResult <= shortResult;
+        const side = (this.policy === 'pessimistic') === longIsWorse ? 'LONG' : 'SHORT';
+        return { side, decidedBy: this.policy };
+      }
+      case 'lower_timeframe':
+        for (const sub of await this.getSubCandles(candle)) {
+          const up = sub.high >= upperThreshold;
+          const down = sub.low <= lowerThreshold;
+          if (up && !down) return { side: 'LONG', decidedBy: 'lower_timeframe' };
+          if (down && !up) return { side: 'SHORT', decidedBy: 'lower_timeframe' };
+          if (up && down) return { side: highComesFirst(sub) ? 'LONG' : 'SHORT', decidedBy: 'ohlc_path' };
+        }
+        break;
+    }
+
+    return { side: highComesFirst(candle) ? 'LONG' : 'SHORT', decidedBy: 'ohlc_path' };
+  }
+
+  // A candle reached the next trigger and the stop, decide whether the trigger came first
+  async resolveExitOrder(
+    candle: Candle,
+    side: Side,
+    stopLevel: number,
+    triggerLevel: number
+  ): Promise<{ triggerFirst: boolean; decidedBy: IntrabarPolicy }> {
+    switch (this.policy) {
+      case 'pessimistic':
+        return { triggerFirst: false, decidedBy: 'pessimistic' };
+      case 'optimistic':
+        return { triggerFirst: true, decidedBy: 'optimistic' };
+      case 'lower_timeframe':
+        for (const sub of await this.getSubCandles(candle)) {
+          const stopHit = side === 'LONG' ? sub.low <= stopLevel : sub.high >= stopLevel;
+          const triggerHit = side === 'LONG' ? sub.high >= triggerLevel : sub.low <= triggerLevel;
+          if (triggerHit && !stopHit) return { triggerFirst: true, decidedBy: 'lower_timeframe' };
+          if (stopHit && !triggerHit) return { triggerFirst: false, decidedBy: 'lower_timeframe' };
+          if (stopHit && triggerHit) {
+            return { triggerFirst: (side === 'LONG') === highComesFirst(sub), decidedBy: 'ohlc_path' };
+          }
+        }
+        break;
+    }
+
+    return { triggerFirst: (side === 'LONG') === highComesFirst(candle), decidedBy: 'ohlc_path' };
+  }
+
+  private async getSubCandles(candle: Candle): Promise<Candle[]> {
+    if (!this.lowerCandles) {
+      this.lowerCandles = await this.loadLowerCandles();
+      if (this.lowerCandles.length === 0) {
+        console.warn(`⚠️ No ${this.runConfig.trade.intrabar.lowerTimeframe} candles found, falling back to ohlc_path`);
+      }
+    }
+
+    const candles = this.lowerCandles;
+    const subCandles: Candle[] = [];
+    for (let i = findIndexAtOrAfter(candles, candle.openTime); i < candles.length; i++) {
+      if (candles[i].openTime > candle.closeTime) break;
+      subCandles.push(candles[i]);
+    }
+    return subCandles;
+  }
+}
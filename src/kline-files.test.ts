@@ -0,0 +1,78 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Candle } from './interfaces';
+import { findIndexAtOrAfter, parseKlineCsv } from './kline-files';
+
+const HEADER = 'open_time,open,high,low,close,volume,close_time,quote_volume,count,taker_buy_volume,taker_buy_quote_volume,ignore';
+// 2025-01-01 00:00 UTC, once in microseconds and once in milliseconds
+const MICROSECOND_ROW = '1735689600000000,3500.1,3600,3400,3550,1000,1735693199999999,3550000,500,600,2130000,0';
+const MILLISECOND_ROW = '1735689600000,3500.1,3600,3400,3550,1000,1735693199999,3550000,500,600,2130000,0';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kline-files-'));
+
+function writeCsv(name: string, lines: string[]): string {
+  const filePath = path.join(tmpDir, name);
+  fs.writeFileSync(filePath, `${lines.join('\n')}\n`);
+  return filePath;
+}
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('reads a headerless row with microsecond timestamps as milliseconds', async () => {
+  const { candles, report } = await parseKlineCsv(writeCsv('spot.csv', [MICROSECOND_ROW]));
+
+  assert.deepEqual(report, { file: 'spot.csv', hasHeader: false, timestampUnit: 'us', rows: 1, rejected: [] });
+  assert.deepEqual(candles, [{
+    openTime: 1735689600000,
+    open: 3500.1,
+    high: 3600,
+    low: 3400,
+    close: 3550,
+    volume: 1000,
+    closeTime: 1735693199999,
+    quoteVolume: 3550000,
+    trades: 500,
+    takerBuyVolume: 600,
+    takerBuyQuoteVolume: 2130000,
+  }]);
+});
+
+test('reads columns by name when the file has a header', async () => {
+  const { candles, report } = await parseKlineCsv(writeCsv('futures.csv', [HEADER, MILLISECOND_ROW]));
+
+  assert.equal(report.hasHeader, true);
+  assert.equal(report.timestampUnit, 'ms');
+  assert.equal(report.rows, 1);
+  assert.equal(candles[0].openTime, 1735689600000);
+  assert.equal(candles[0].closeTime, 1735693199999);
+});
+
+test('rejects malformed rows with their line number and keeps the rest', async () => {
+  const { candles, report } = await parseKlineCsv(writeCsv('broken.csv', [
+    HEADER,
+    MILLISECOND_ROW,
+    '1735693200000,3550,abc,3500,3560,900,1735696799999,3204000,450,500,1780000,0',
+    '1735696800000,3560',
+  ]));
+
+  assert.equal(candles.length, 1);
+  assert.equal(report.rows, 3);
+  assert.deepEqual(report.rejected, [
+    { line: 3, reason: 'high is not a number ("abc")' },
+    { line: 4, reason: 'missing high' },
+  ]);
+});
+
+test('finds the first candle at or after a time', () => {
+  const candles = [0, 60, 120].map((openTime) => ({ openTime } as Candle));
+
+  assert.equal(findIndexAtOrAfter(candles, -1), 0);
+  assert.equal(findIndexAtOrAfter(candles, 60), 1);
+  assert.equal(findIndexAtOrAfter(candles, 61), 2);
+  assert.equal(findIndexAtOrAfter(candles, 121), 3);
+});
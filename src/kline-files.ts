@@ -0,0 +1,152 @@
+import path from 'path';
+import fs from 'fs';
+import csv from 'csv-parser';
+import { Candle } from './interfaces';
+
+// Downloaded archives live in kline/<symbol>/<timeframe>/{zip,csv}
+export const KLINE_DIR = path.join(__dirname, '../kline');
+
+export function getKlineCsvDir(symbol: string, timeframe: string, klineRoot: string = KLINE_DIR): string {
+  return path.join(klineRoot, symbol, timeframe, 'csv');
+}
+
+export async function getAllCsvFiles(symbol: string, timeframe: string, klineRoot: string = KLINE_DIR): Promise<string[]> {
+  const klineDir = getKlineCsvDir(symbol, timeframe, klineRoot);
+  const files = await fs.promises.readdir(klineDir);
+  return files
+    .filter((file) => file.endsWith('.csv'))
+    .sort()
+    .map((file) => path.join(klineDir, file));
+}
+
+// Binary search over candles sorted by open time
+export function findIndexAtOrAfter(candles: Candle[], timestamp: number): number {
+  let low = 0;
+  let high = candles.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (candles[mid].openTime < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Binance kline columns in file order. Spot archives and older futures months have no header row.
+const KLINE_COLUMNS = [
+  'open_time',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'close_time',
+  'quote_volume',
+  'count',
+  'taker_buy_volume',
+  'taker_buy_quote_volume',
+] as const;
+
+type KlineColumn = (typeof KLINE_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: KlineColumn[] = ['open_time', 'open', 'high', 'low', 'close', 'volume', 'close_time'];
+
+// Millisecond open times have 13 digits, microsecond ones (spot from 2025) have 16
+const MICROSECOND_THRESHOLD = 1e14;
+
+export interface KlineParseReport {
+  file: string;
+  hasHeader: boolean;
+  timestampUnit: 'ms' | 'us';
+  rows: number; // Data rows, without the header
+  rejected: Array<{ line: number; reason: string }>;
+}
+
+function toMilliseconds(timestamp: number): number {
+  return timestamp >= MICROSECOND_THRESHOLD ? Math.floor(timestamp / 1000) : timestamp;
+}
+
+// A row is a header when its first field isn't a number
+function isHeader(fields: string[]): boolean {
+  return fields.length > 0 && !Number.isFinite(Number(fields[0]));
+}
+
+function parseKlineRow(fields: string[], positions: Record<KlineColumn, number>): Candle | string {
+  const values = {} as Record<KlineColumn, number>;
+  for (const column of KLINE_COLUMNS) {
+    const position = positions[column];
+    const field = position >= 0 ? fields[position] : undefined;
+    const value = field === undefined || field.trim() === '' ? NaN : Number(field);
+
+    if (!Number.isFinite(value)) {
+      if (REQUIRED_COLUMNS.includes(column)) {
+        return field === undefined ? `missing ${column}` : `${column} is not a number ("${field}")`;
+      }
+      continue;
+    }
+    values[column] = value;
+  }
+
+  return {
+    openTime: toMilliseconds(values.open_time),
+    open: values.open,
+    high: values.high,
+    low: values.low,
+    close: values.close,
+    volume: values.volume,
+    closeTime: toMilliseconds(values.close_time),
+    quoteVolume: values.quote_volume,
+    trades: values.count,
+    takerBuyVolume: values.taker_buy_volume,
+    takerBuyQuoteVolume: values.taker_buy_quote_volume,
+  };
+}
+
+// Reads a Binance kline CSV with or without a header row and in millisecond or
+// microsecond timestamps. Rows that don't parse are left out and listed in the report.
+export function parseKlineCsv(filePath: string): Promise<{ candles: Candle[]; report: KlineParseReport }> {
+  const report: KlineParseReport = {
+    file: path.basename(filePath),
+    hasHeader: false,
+    timestampUnit: 'ms',
+    rows: 0,
+    rejected: [],
+  };
+  const candles: Candle[] = [];
+  let positions = Object.fromEntries(KLINE_COLUMNS.map((column, index) => [column, index])) as Record<KlineColumn, number>;
+  let line = 0;
+
+  return new Promise((resolve, reject) => {
+    fs.createReadStream(filePath)
+      .pipe(csv({ headers: false }))
+      .on('data', (row: Record<string, string>) => {
+        line++;
+        const fields = Object.values(row);
+        if (fields.every((field) => field.trim() === '')) return;
+
+        if (line === 1 && isHeader(fields)) {
+          report.hasHeader = true;
+          const header = fields.map((field) => field.trim());
+          positions = Object.fromEntries(
+            KLINE_COLUMNS.map((column) => [column, header.indexOf(column)])
+          ) as Record<KlineColumn, number>;
+          return;
+        }
+
+        report.rows++;
+        const candle = parseKlineRow(fields, positions);
+        if (typeof candle === 'string') {
+          report.rejected.push({ line, reason: candle });
+          return;
+        }
+        if (candles.length === 0 && Number(fields[positions.open_time]) >= MICROSECOND_THRESHOLD) {
+          report.timestampUnit = 'us';
+        }
+        candles.push(candle);
+      })
+      .on('end', () => resolve({ candles, report }))
+      .on('error', reject);
+  });
+}
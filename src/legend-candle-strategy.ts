@@ -0,0 +1,143 @@
+import moment from 'moment';
+import config, { TradingConfig } from './config';
+import { Candle, IntrabarResolution } from './interfaces';
+import { createTrailingStop, StopMove, TrailingStop } from './trailing-stops';
+import { calculateBaseline } from './volatility-baselines';
+import { Logger } from './logger';
+import {
+  Strategy,
+  StrategyContext,
+  StrategyEntry,
+  StrategyPosition,
+  StrategySignal,
+} from './strategies';
+
+// A legend candle moves at least `threshold` times the average body of the lookback
+// candles. The position opens when price later crosses close ± that distance.
+export class LegendCandleStrategy implements Strategy {
+  readonly name = 'legend_candle';
+  private logger: Logger;
+
+  constructor(private runConfig: TradingConfig = config) {
+    this.logger = new Logger(runConfig);
+  }
+
+  getWarmupCandles(): number {
+    return this.runConfig.strategy.lookbackPeriod.candles + 10;
+  }
+
+  onCandle(context: StrategyContext, index: number): StrategySignal | null {
+    const { series } = context;
+    const from = Math.max(0, index - this.runConfig.strategy.lookbackPeriod.candles);
+
+    // Current candle's movement and the average of the previous candles, from running sums
+    const currentDiff = series.value('body_percent', index);
+    const averageDiff = series.mean('body_percent', from, index);
+
+    // The mean is the default baseline, other estimators resist the spikes inside it
+    const { estimator } = this.runConfig.strategy.baseline;
+    const baseline = estimator === 'mean' ? averageDiff : calculateBaseline(series, index, this.runConfig);
+    const dynamicThreshold = this.runConfig.strategy.lookbackPeriod.threshold * baseline;
+
+    this.logger.debug(() => `
+🔍 Checking candle at ${moment(series.openTime[index]).format('YYYY-MM-DD HH:mm:ss')}
+Movement: ${currentDiff.toFixed(2)}%
+Average Movement: ${averageDiff.toFixed(2)}%${estimator !== 'mean' ? `
+Baseline (${estimator}): ${baseline.toFixed(2)}%` : ''}
+Dynamic Threshold: ${dynamicThreshold.toFixed(2)}%`);
+
+    if (currentDiff < dynamicThreshold) return null;
+
+    // This is a legend candle
+    const currentCandle = context.candles[index];
+    const thresholdValue = currentCandle.close * (dynamicThreshold / 100);
+    const signal: StrategySignal = {
+      index,
+      timestamp: moment(currentCandle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+      candle: currentCandle,
+      movement: currentDiff,
+      averageMovement: averageDiff,
+      baselineEstimator: estimator,
+      baselineMovement: baseline,
+      dynamicThreshold,
+      upperThreshold: currentCandle.close + thresholdValue,
+      lowerThreshold: currentCandle.close - thresholdValue
+    };
+
+    this.logger.info(() => `
+✨ LEGEND CANDLE FOUND!
+Time: ${signal.timestamp}
+Close: ${currentCandle.close}
+Upward Threshold: ${signal.upperThreshold}
+Downward Threshold: ${signal.lowerThreshold}`);
+
+    return signal;
+  }
+
+  async onEntrySignal(context: StrategyContext, signal: StrategySignal): Promise<StrategyEntry | null> {
+    const { candles, intrabar } = context;
+
+    for (let i = 1; i <= this.runConfig.trade.maxLookForwardCandles; i++) {
+      if (signal.index + i >= candles.length) break;
+
+      const candle = candles[signal.index + i];
+      const crossedUp = candle.high >= signal.upperThreshold;
+      const crossedDown = candle.low <= signal.lowerThreshold;
+      if (!crossedUp && !crossedDown) continue;
+
+      let direction: 'LONG' | 'SHORT' = crossedUp ? 'LONG' : 'SHORT';
+      let resolution: IntrabarResolution | undefined;
+      if (crossedUp && crossedDown) {
+        const resolved = await intrabar.resolveEntry(candle, signal.upperThreshold, signal.lowerThreshold);
+        direction = resolved.side;
+        resolution = {
+          time: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+          event: 'entry',
+          decided_by: resolved.decidedBy,
+          outcome: `both thresholds crossed, entered ${direction}`
+        };
+      }
+
+      return {
+        direction,
+        crossed_at: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
+        entry_price: direction === 'LONG' ? signal.upperThreshold : signal.lowerThreshold,
+        candles_until_cross: i,
+        entryCandleData: {
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume
+        },
+        resolution
+      };
+    }
+
+    return null;
+  }
+
+  onPositionOpen(context: StrategyContext, position: StrategyPosition): TrailingStop {
+    return createTrailingStop(
+      {
+        side: position.side,
+        entryPrice: position.entryPrice,
+        entryIndex: position.entryIndex,
+        dynamicThreshold: position.signal.dynamicThreshold,
+        candles: context.candles,
+        series: context.series
+      },
+      this.runConfig
+    );
+  }
+
+  onPositionUpdate(
+    _context: StrategyContext,
+    _position: StrategyPosition,
+    stop: TrailingStop,
+    candle: Candle,
+    index: number
+  ): StopMove[] {
+    return stop.getMoves(candle, index);
+  }
+}
@@ -0,0 +1,121 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config, { TradingConfig } from './config';
+import { DeepPartial, mergeConfig } from './config-loader';
+import { LocalDirectorySource } from './local-data-source';
+import { createMarketDataSource, MemoryDataSource } from './market-data';
+
+const tmpDirs: string[] = [];
+const HOUR_MS = 60 * 60 * 1000;
+const JAN_1 = Date.UTC(2024, 0, 1);
+
+// A data directory with the given files under ETHUSDT/1h, read for January 2024
+function createSource(files: Record<string, string>, local: DeepPartial<TradingConfig['dataSource']['local']> = {}) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-data-'));
+  tmpDirs.push(directory);
+  const pairDir = path.join(directory, 'ETHUSDT', '1h');
+  fs.mkdirSync(pairDir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(pairDir, name), content);
+  }
+
+  return new LocalDirectorySource(mergeConfig(config, {
+    dataFetch: { startDate: { year: 2024, month: 1 }, endDate: { year: 2024, month: 2 } },
+    dataSource: { type: 'local', local: { directory, ...local } },
+  }));
+}
+
+function csvRow(hour: number, close: number): string {
+  return [JAN_1 + hour * HOUR_MS, close - 1, close + 1, close - 2, close, 10].join(',');
+}
+
+after(() => {
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+test('the config picks the data source', () => {
+  assert.ok(createMarketDataSource(mergeConfig(config, { dataSource: { type: 'local' } })) instanceof LocalDirectorySource);
+  assert.equal(createMarketDataSource(config).name, 'binance');
+  assert.equal(new MemoryDataSource().name, 'memory');
+});
+
+test('CSV files with a header are read by column name and sorted across files', async () => {
+  const header = 'open_time,open,high,low,close,volume';
+  const source = createSource({
+    'b.csv': [header, csvRow(2, 102), csvRow(1, 101)].join('\n'),
+    'a.csv': [header, csvRow(0, 100)].join('\n'),
+    'notes.txt': 'not candles',
+  });
+
+  const candles = await source.loadCandles('ETHUSDT', '1h');
+
+  assert.deepEqual(candles.map((candle) => candle.close), [100, 101, 102]);
+  assert.deepEqual(candles[0], {
+    openTime: JAN_1, open: 99, high: 101, low: 98, close: 100, volume: 10,
+    // Derived from the timeframe without a closeTime column
+    closeTime: JAN_1 + HOUR_MS - 1,
+  });
+});
+
+test('headerless CSV columns are positions and second timestamps are converted', async () => {
+  const openTime = JAN_1 / 1000;
+  const source = createSource({ 'candles.csv': `${openTime},99,101,98,100,10,${openTime + 3599}\n` }, {
+    hasHeader: false,
+    timestampUnit: 's',
+    columns: { openTime: 0, open: 1, high: 2, low: 3, close: 4, volume: 5, closeTime: 6 },
+  });
+
+  const [candle] = await source.loadCandles('ETHUSDT', '1h');
+
+  assert.equal(candle.openTime, JAN_1);
+  assert.equal(candle.closeTime, JAN_1 + 3599_000);
+  assert.equal(candle.close, 100);
+});
+
+test('JSON files hold arrays of objects or of positional arrays', async () => {
+  const objects = createSource({
+    'candles.json': JSON.stringify([{ t: JAN_1, o: 99, h: 101, l: 98, c: 100, v: 10 }]),
+  }, { format: 'json', columns: { openTime: 't', open: 'o', high: 'h', low: 'l', close: 'c', volume: 'v' } });
+  const arrays = createSource({
+    'candles.json': JSON.stringify([[JAN_1, 99, 101, 98, 100, 10]]),
+  }, { format: 'json', columns: { openTime: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 } });
+
+  const [fromObjects] = await objects.loadCandles('ETHUSDT', '1h');
+  const [fromArrays] = await arrays.loadCandles('ETHUSDT', '1h');
+
+  assert.equal(fromObjects.close, 100);
+  assert.deepEqual(fromArrays, fromObjects);
+});
+
+test('rows outside the date range or with unreadable columns are left out', async () => {
+  const header = 'open_time,open,high,low,close,volume';
+  const source = createSource({
+    'candles.csv': [
+      header,
+      csvRow(0, 100),
+      [JAN_1 - HOUR_MS, 99, 101, 98, 100, 10].join(','), // December 2023
+      [JAN_1 + HOUR_MS, 'n/a', 101, 98, 100, 10].join(','),
+      csvRow(2, 102),
+    ].join('\n'),
+  });
+
+  const candles = await source.loadCandles('ETHUSDT', '1h');
+
+  assert.deepEqual(candles.map((candle) => candle.close), [100, 102]);
+});
+
+test('a pair without a folder has no candles and nothing is ever downloaded', async () => {
+  const source = createSource({});
+
+  assert.deepEqual(await source.loadCandles('BTCUSDT', '1h'), []);
+  assert.equal(await source.prepare('BTCUSDT', '1h'), null);
+});
+
+test('a JSON file that is not an array is an error', async () => {
+  const source = createSource({ 'candles.json': '{"candles": []}' }, { format: 'json' });
+
+  await assert.rejects(source.loadCandles('ETHUSDT', '1h'), /must hold an array of candles/);
+});
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import csv from 'csv-parser';
+import config, { TradingConfig } from './config';
+import { Candle } from './interfaces';
+import { DownloadReport } from './data-fetcher';
+import { timeframeToMs } from './metrics';
+import { getDateRange, MarketDataSource, Timeframe } from './market-data';
+
+type LocalSettings = TradingConfig['dataSource']['local'];
+type Row = Record<string, unknown> | unknown[];
+
+// CSV or JSON candles from another venue or a recorder, read from
+// <directory>/<symbol>/<timeframe>/ in the column layout dataSource.local describes
+export class LocalDirectorySource implements MarketDataSource {
+  readonly name = 'local';
+
+  constructor(private runConfig: TradingConfig = config) {}
+
+  private get settings(): LocalSettings {
+    return this.runConfig.dataSource.local;
+  }
+
+  async prepare(symbol: string, timeframe: Timeframe): Promise<DownloadReport | null> {
+    console.log(`Using local data from ${this.getPairDir(symbol, timeframe)}, nothing to download`);
+    return null;
+  }
+
+  async loadCandles(symbol: string, timeframe: Timeframe): Promise<Candle[]> {
+    const pairDir = this.getPairDir(symbol, timeframe);
+    if (!fs.existsSync(pairDir)) return [];
+
+    const extension = `.${this.settings.format}`;
+    const files = (await fs.promises.readdir(pairDir))
+      .filter(file => file.endsWith(extension))
+      .sort();
+    const { startTime, endTime } = getDateRange(this.runConfig);
+    const candles: Candle[] = [];
+
+    console.log(`Loading ${files.length} ${this.settings.format.toUpperCase()} files from ${pairDir}...`);
+    for (const file of files) {
+      const filePath = path.join(pairDir, file);
+      const rows = this.settings.format === 'json' ? await this.readJson(filePath) : await this.readCsv(filePath);
+
+      let invalid = 0;
+      for (const row of rows) {
+        const candle = this.toCandle(row, timeframe);
+        if (!candle) {
+          invalid++;
+        } else if (candle.openTime >= startTime && candle.openTime <= endTime) {
+          candles.push(candle);
+        }
+      }
+      if (invalid > 0) {
+        console.warn(`⚠️ Skipped ${invalid} rows of ${file} that don't match dataSource.local.columns`);
+      }
+    }
+
+    // Files from other sources don't have to be split or named in time order
+    candles.sort((a, b) => a.openTime - b.openTime);
+    console.log(`Loaded ${candles.length} candles for ${symbol} - ${timeframe}`);
+    return candles;
+  }
+
+  private getPairDir(symbol: string, timeframe: Timeframe): string {
+    return path.resolve(this.settings.directory, symbol, timeframe);
+  }
+
+  private readCsv(filePath: string): Promise<Row[]> {
+    return new Promise((resolve, reject) => {
+      const rows: Row[] = [];
+      // Without a header csv-parser keys the fields by position: '0', '1', ...
+      fs.createReadStream(filePath)
+        .pipe(csv(this.settings.hasHeader ? {} : { headers: false }))
+        .on('data', (row) => rows.push(row))
+        .on('end', () => resolve(rows))
+        .on('error', reject);
+    });
+  }
+
+  private async readJson(filePath: string): Promise<Row[]> {
+    const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${filePath} must hold an array of candles`);
+    }
+    return parsed;
+  }
+
+  private toCandle(row: Row, timeframe: Timeframe): Candle | null {
+    const { columns, timestampUnit } = this.settings;
+    const read = (column: string | number): number => Number((row as Record<string, unknown>)[String(column)]);
+    const toMs = (value: number) => (timestampUnit === 's' ? value * 1000 : value);
+
+    const openTime = toMs(read(columns.openTime));
+    const candle: Candle = {
+      openTime,
+      open: read(columns.open),
+      high: read(columns.high),
+      low: read(columns.low),
+      close: read(columns.close),
+      volume: read(columns.volume),
+      closeTime: columns.closeTime !== undefined
+        ? toMs(read(columns.closeTime))
+        : openTime + timeframeToMs(timeframe) - 1,
+    };
+
+    return Object.values(candle).every(Number.isFinite) ? candle : null;
+  }
+}
@@ -0,0 +1,27 @@
+import config, { TradingConfig } from './config';
+
+export type LogLevel = TradingConfig['logging']['level'];
+
+const LEVELS: Record<LogLevel, number> = {
+  quiet: 0,
+  info: 1,
+  debug: 2,
+};
+
+// Per-signal messages log at info, per-candle ones at debug. Messages are passed as
+// functions so nothing is formatted for a level that is switched off.
+export class Logger {
+  constructor(private runConfig: TradingConfig = config) {}
+
+  enabled(level: LogLevel): boolean {
+    return LEVELS[this.runConfig.logging.level] >= LEVELS[level];
+  }
+
+  info(message: () => string): void {
+    if (this.enabled('info')) console.log(message());
+  }
+
+  debug(message: () => string): void {
+    if (this.enabled('debug')) console.log(message());
+  }
+}
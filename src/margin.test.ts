@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import {
+  calculateLiquidationPrice,
+  calculateMarginDetails,
+  calculateRemainingMargin,
+  ContractSpec,
+  getMaintenanceTier,
+  getNotional,
+  getPositionPnl,
+} from './margin';
+
+const LINEAR: ContractSpec = { inverse: false, contractSize: 1 };
+const INVERSE: ContractSpec = { inverse: true, contractSize: 100 };
+const FIRST_TIER = { maxNotional: 50000, rate: 0.5, amount: 0 };
+
+function futuresConfig(market: Partial<TradingConfig['market']>): TradingConfig {
+  return { ...config, market: { ...config.market, type: 'futures', ...market } };
+}
+
+test('linear isolated liquidation prices follow the USD-M formula', () => {
+  // 1 BTC at 10,000 USDT with 10x: 1,000 USDT wallet balance, 0.5% maintenance
+  // long:  (1000 - 10000) / (0.005 - 1) = 9045.23
+  // short: (1000 + 10000) / (0.005 + 1) = 10945.27
+  const position = { entryPrice: 10000, size: 1, walletBalance: 1000, tier: FIRST_TIER, spec: LINEAR };
+
+  assert.ok(Math.abs(calculateLiquidationPrice({ ...position, side: 'LONG' })! - 9045.226) < 0.001);
+  assert.ok(Math.abs(calculateLiquidationPrice({ ...position, side: 'SHORT' })! - 10945.274) < 0.001);
+});
+
+test('inverse liquidation prices follow the COIN-M formula', () => {
+  // 100 contracts of 100 USD at 10,000 with 10x: 1 BTC notional, 0.1 BTC wallet balance
+  // long:  (10000 × 0.005 + 10000) / (0.1 + 10000 / 10000) = 9136.36
+  // short: (10000 × 0.005 - 10000) / (0.1 - 10000 / 10000) = 11055.56
+  const position = { entryPrice: 10000, size: 100, walletBalance: 0.1, tier: FIRST_TIER, spec: INVERSE };
+
+  assert.ok(Math.abs(calculateLiquidationPrice({ ...position, side: 'LONG' })! - 9136.364) < 0.001);
+  assert.ok(Math.abs(calculateLiquidationPrice({ ...position, side: 'SHORT' })! - 11055.556) < 0.001);
+});
+
+test('equity equals the maintenance margin at the liquidation price', () => {
+  const tier = { maxNotional: 3000000, rate: 1, amount: 825 };
+  for (const spec of [LINEAR, INVERSE]) {
+    for (const side of ['LONG', 'SHORT'] as const) {
+      const entryPrice = 30000;
+      const size = spec.inverse ? 2000 : 5;
+      const walletBalance = getNotional(entryPrice, size, spec) / 20;
+      // The cumulative amount is in the account currency, so only linear tiers use it here
+      const positionTier = spec.inverse ? { ...tier, amount: 0 } : tier;
+      const price = calculateLiquidationPrice({ side, entryPrice, size, walletBalance, tier: positionTier, spec })!;
+
+      const equity = walletBalance + getPositionPnl(entryPrice, price, side, size, spec);
+      const maintenance = getNotional(price, size, spec) * (positionTier.rate / 100) - positionTier.amount;
+      assert.ok(Math.abs(equity - maintenance) < 1e-9 * Math.max(1, Math.abs(maintenance)), `${side} ${spec.inverse ? 'inverse' : 'linear'}`);
+    }
+  }
+});
+
+test('a fully collateralised long cannot be liquidated', () => {
+  const price = calculateLiquidationPrice({
+    side: 'LONG', entryPrice: 10000, size: 1, walletBalance: 10000, tier: FIRST_TIER, spec: LINEAR,
+  });
+  assert.equal(price, null);
+});
+
+test('maintenance tiers are picked by notional', () => {
+  const tiers = config.market.maintenanceMarginTiers;
+  assert.equal(getMaintenanceTier(50000, tiers).rate, 0.5);
+  assert.equal(getMaintenanceTier(50001, tiers).rate, 0.65);
+  assert.equal(getMaintenanceTier(1e9, tiers).rate, 5);
+});
+
+test('margin details use the whole account behind a cross position', () => {
+  const position = { side: 'LONG' as const, entryPrice: 2000, size: 5, accountBalance: 5000 };
+
+  const isolated = calculateMarginDetails(position, futuresConfig({ subType: 'um', leverage: 10, marginMode: 'isolated' }));
+  assert.equal(isolated.margin, 1000);
+  assert.equal(isolated.walletBalance, 1000);
+
+  const cross = calculateMarginDetails(position, futuresConfig({ subType: 'um', leverage: 10, marginMode: 'cross' }));
+  assert.equal(cross.margin, 1000);
+  assert.equal(cross.walletBalance, 5000);
+  assert.ok(cross.liquidationPrice! < isolated.liquidationPrice!);
+});
+
+test('the margin left after a partial close follows the margin mode', () => {
+  const position = { side: 'LONG' as const, entryPrice: 2000, size: 5, accountBalance: 5000 };
+  const remaining = { side: 'LONG' as const, entryPrice: 2000, size: 2, fraction: 0.4, realizedPnl: 300 };
+
+  // Isolated margin shrinks with the size, so the liquidation price stays put
+  const isolatedConfig = futuresConfig({ subType: 'um', leverage: 10, marginMode: 'isolated' });
+  const isolated = calculateMarginDetails(position, isolatedConfig);
+  const isolatedLeft = calculateRemainingMargin(remaining, isolated, isolatedConfig);
+  assert.equal(isolatedLeft.margin, 400);
+  assert.equal(isolatedLeft.walletBalance, 400);
+  assert.ok(Math.abs(isolatedLeft.liquidationPrice! - isolated.liquidationPrice!) < 1e-9);
+
+  // Cross keeps the account and the realized PnL behind a smaller position
+  const crossConfig = futuresConfig({ subType: 'um', leverage: 10, marginMode: 'cross' });
+  const crossLeft = calculateRemainingMargin(remaining, calculateMarginDetails(position, crossConfig), crossConfig);
+  assert.equal(crossLeft.walletBalance, 5300);
+  // which more than covers the 4000 still open
+  assert.equal(crossLeft.liquidationPrice, null);
+});
+
+test('spot positions have no liquidation price', () => {
+  const details = calculateMarginDetails(
+    { side: 'LONG', entryPrice: 2000, size: 1, accountBalance: 5000 },
+    { ...config, market: { ...config.market, type: 'spot', leverage: 1 } }
+  );
+  assert.equal(details.leverage, 1);
+  assert.equal(details.liquidationPrice, null);
+});
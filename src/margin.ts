@@ -0,0 +1,172 @@
+import config, { TradingConfig } from './config';
+
+export interface MaintenanceTier {
+  maxNotional?: number; // Upper notional bound of the tier, omitted for the last tier
+  rate: number; // Maintenance margin rate in percent
+  amount: number; // Maintenance amount deducted at this tier
+}
+
+export interface ContractSpec {
+  inverse: boolean; // COIN-M contracts are quoted in USD and settled in the base coin
+  contractSize: number; // USD value of one inverse contract
+}
+
+export interface MarginDetails {
+  leverage: number;
+  marginMode: 'isolated' | 'cross';
+  margin: number; // Margin posted for the position
+  walletBalance: number; // Balance that can be lost before liquidation
+  maintenanceRate: number;
+  liquidationPrice: number | null; // null when the position can't be liquidated
+}
+
+export function getContractSpec(runConfig: TradingConfig = config): ContractSpec {
+  return {
+    inverse: runConfig.market.type === 'futures' && runConfig.market.subType === 'cm',
+    contractSize: runConfig.market.contractSize,
+  };
+}
+
+// Position value in the account currency: quote asset for linear, base coin for inverse
+export function getNotional(price: number, size: number, spec: ContractSpec): number {
+  return spec.inverse ? (size * spec.contractSize) / price : price * size;
+}
+
+// Converts an account-currency position value into a quantity (linear) or contract count (inverse)
+export function getSizeForNotional(notional: number, price: number, spec: ContractSpec): number {
+  return spec.inverse ? (notional * price) / spec.contractSize : notional / price;
+}
+
+export function getPositionPnl(
+  entryPrice: number,
+  exitPrice: number,
+  side: 'LONG' | 'SHORT',
+  size: number,
+  spec: ContractSpec
+): number {
+  const direction = side === 'LONG' ? 1 : -1;
+  return spec.inverse
+    ? direction * size * spec.contractSize * (1 / entryPrice - 1 / exitPrice)
+    : direction * (exitPrice - entryPrice) * size;
+}
+
+export function getMaintenanceTier(notional: number, tiers: MaintenanceTier[]): MaintenanceTier {
+  const tier = tiers.find((t) => t.maxNotional === undefined || notional <= t.maxNotional);
+  return tier ?? tiers[tiers.length - 1];
+}
+
+// Binance single-position liquidation price formulas for USD-M (linear) and COIN-M (inverse)
+export function calculateLiquidationPrice(position: {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  size: number;
+  walletBalance: number;
+  tier: MaintenanceTier;
+  spec: ContractSpec;
+}): number | null {
+  const { entryPrice, size, walletBalance, tier, spec } = position;
+  const direction = position.side === 'LONG' ? 1 : -1;
+  const maintenanceRate = tier.rate / 100;
+
+  let price: number;
+  if (spec.inverse) {
+    const contractValue = size * spec.contractSize;
+    price = (contractValue * maintenanceRate + direction * contractValue) /
+      (walletBalance + tier.amount + (direction * contractValue) / entryPrice);
+  } else {
+    price = (walletBalance + tier.amount - direction * size * entryPrice) /
+      (size * maintenanceRate - direction * size);
+  }
+
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+export function calculateMarginDetails(
+  position: {
+    side: 'LONG' | 'SHORT';
+    entryPrice: number;
+    size: number;
+    accountBalance: number;
+  },
+  runConfig: TradingConfig = config
+): MarginDetails {
+  const spec = getContractSpec(runConfig);
+  const notional = getNotional(position.entryPrice, position.size, spec);
+
+  if (runConfig.market.type === 'spot') {
+    return {
+      leverage: 1,
+      marginMode: 'isolated',
+      margin: notional,
+      walletBalance: notional,
+      maintenanceRate: 0,
+      liquidationPrice: null,
+    };
+  }
+
+  const { leverage, marginMode, maintenanceMarginTiers } = runConfig.market;
+  const margin = notional / leverage;
+  // Cross margin puts the whole account behind the position
+  const walletBalance = marginMode === 'cross' ? position.accountBalance : margin;
+  const tier = getMaintenanceTier(notional, maintenanceMarginTiers);
+
+  return {
+    leverage,
+    marginMode,
+    margin,
+    walletBalance,
+    maintenanceRate: tier.rate,
+    liquidationPrice: calculateLiquidationPrice({
+      side: position.side,
+      entryPrice: position.entryPrice,
+      size: position.size,
+      walletBalance,
+      tier,
+      spec,
+    }),
+  };
+}
+
+// Margin behind what is left of a position once take-profit legs have closed part of it.
+// Isolated positions release margin in proportion to the size closed, cross positions keep
+// the whole account behind them including the PnL the closed legs realized.
+export function calculateRemainingMargin(
+  position: {
+    side: 'LONG' | 'SHORT';
+    entryPrice: number;
+    size: number; // Size still open
+    fraction: number; // Share of the original size still open
+    realizedPnl: number;
+  },
+  details: MarginDetails,
+  runConfig: TradingConfig = config
+): MarginDetails {
+  const margin = details.margin * position.fraction;
+  if (runConfig.market.type === 'spot') {
+    return { ...details, margin, walletBalance: margin };
+  }
+
+  const spec = getContractSpec(runConfig);
+  const walletBalance = details.marginMode === 'cross'
+    ? details.walletBalance + position.realizedPnl
+    : details.walletBalance * position.fraction;
+  const tier = getMaintenanceTier(
+    getNotional(position.entryPrice, position.size, spec),
+    runConfig.market.maintenanceMarginTiers
+  );
+
+  return {
+    ...details,
+    margin,
+    walletBalance,
+    maintenanceRate: tier.rate,
+    liquidationPrice: calculateLiquidationPrice({
+      side: position.side,
+      entryPrice: position.entryPrice,
+      size: position.size,
+      walletBalance,
+      tier,
+      spec,
+    }),
+  };
+}
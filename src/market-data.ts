@@ -0,0 +1,82 @@
+import config, { TradingConfig, AVAILABLE_TIMEFRAMES } from './config';
+import { Candle } from './interfaces';
+import { DownloadReport } from './data-fetcher';
+import { BinanceArchiveSource } from './binance-data-source';
+import { LocalDirectorySource } from './local-data-source';
+
+export type Timeframe = (typeof AVAILABLE_TIMEFRAMES)[number];
+
+// Where a backtest gets its candles from
+export interface MarketDataSource {
+  readonly name: string;
+  // Download or otherwise make the candles available, null when there is nothing to fetch
+  prepare(symbol: string, timeframe: Timeframe): Promise<DownloadReport | null>;
+  // Candles sorted by open time, empty when the source has none for the pair
+  loadCandles(symbol: string, timeframe: Timeframe): Promise<Candle[]>;
+}
+
+// dataFetch bounds as open-time timestamps, the end month itself is excluded
+export function getDateRange(runConfig: TradingConfig = config): { startTime: number; endTime: number } {
+  const { startDate, endDate } = runConfig.dataFetch;
+  return {
+    startTime: new Date(startDate.year, startDate.month - 1).getTime(),
+    endTime: endDate ? new Date(endDate.year, endDate.month - 1).getTime() : new Date().getTime(),
+  };
+}
+
+// Candles already in memory, e.g. generated or shared between runs. They are
+// returned as given, without applying the dataFetch range.
+export class MemoryDataSource implements MarketDataSource {
+  readonly name = 'memory';
+  private candles = new Map<string, Candle[]>();
+
+  setCandles(symbol: string, timeframe: Timeframe, candles: Candle[]): void {
+    this.candles.set(`${symbol}/${timeframe}`, candles);
+  }
+
+  async prepare(): Promise<DownloadReport | null> {
+    return null;
+  }
+
+  async loadCandles(symbol: string, timeframe: Timeframe): Promise<Candle[]> {
+    return this.candles.get(`${symbol}/${timeframe}`) ?? [];
+  }
+}
+
+// Loads every symbol and timeframe once and hands the same candles to every caller,
+// for runs that build many Backtesters over one pair
+export class CachedDataSource implements MarketDataSource {
+  private loaded = new Map<string, Promise<Candle[]>>();
+
+  constructor(private source: MarketDataSource) {}
+
+  get name(): string {
+    return this.source.name;
+  }
+
+  prepare(symbol: string, timeframe: Timeframe): Promise<DownloadReport | null> {
+    return this.source.prepare(symbol, timeframe);
+  }
+
+  loadCandles(symbol: string, timeframe: Timeframe): Promise<Candle[]> {
+    const key = `${symbol}/${timeframe}`;
+    let candles = this.loaded.get(key);
+    if (!candles) {
+      candles = this.source.loadCandles(symbol, timeframe);
+      // A failed load isn't cached, the next caller tries again
+      candles.catch(() => this.loaded.delete(key));
+      this.loaded.set(key, candles);
+    }
+    return candles;
+  }
+}
+
+export function createMarketDataSource(runConfig: TradingConfig = config): MarketDataSource {
+  switch (runConfig.dataSource.type) {
+    case 'local':
+      return new LocalDirectorySource(runConfig);
+    case 'binance':
+    default:
+      return new BinanceArchiveSource(runConfig);
+  }
+}
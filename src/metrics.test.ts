@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BalanceUpdate, TradeDetailsResult } from './interfaces';
+import { calculateDrawdown, calculateMetrics, parseTimestamp, timeframeToMs } from './metrics';
+
+// Three daily candles with one trade closing in each:
+// 1000 -> 1100 (+10%) -> 990 (-10%) -> 1210 (+22.22%)
+const START = '2024-01-01 00:00:00';
+const END = '2024-01-04 00:00:00';
+const CLOSES: Array<[string, string, number]> = [
+  ['2024-01-01 06:00:00', '2024-01-01 12:00:00', 100],
+  ['2024-01-02 06:00:00', '2024-01-02 12:00:00', -110],
+  ['2024-01-03 06:00:00', '2024-01-03 12:00:00', 220],
+];
+
+function balanceHistory(): BalanceUpdate[] {
+  let balance = 1000;
+  return CLOSES.map(([, exit, pnl]) => {
+    balance += pnl;
+    return { timestamp: exit, balance, trade_pnl: pnl, trade_type: 'TRAILING_STOP' };
+  });
+}
+
+// Only the fields the metrics read
+function trade(entry: string, exit: string, pnl: number): TradeDetailsResult {
+  return {
+    entry: { time: entry },
+    costs: { net_pnl: pnl },
+    trailing_details: { exit_details: { time: exit }, trade_summary: { candles_in_trade: 1 } },
+  } as unknown as TradeDetailsResult;
+}
+
+test('timeframes convert to milliseconds', () => {
+  assert.equal(timeframeToMs('15m'), 15 * 60 * 1000);
+  assert.equal(timeframeToMs('4h'), 4 * 60 * 60 * 1000);
+  assert.equal(timeframeToMs('1w'), 7 * 24 * 60 * 60 * 1000);
+  assert.throws(() => timeframeToMs('1y'), /Unsupported timeframe/);
+});
+
+test('drawdown is measured from the running peak', () => {
+  const drawdown = calculateDrawdown(balanceHistory(), 1000, timeframeToMs('1d'), parseTimestamp(START));
+
+  assert.equal(drawdown.max_drawdown, 110);
+  assert.ok(Math.abs(drawdown.max_drawdown_percent - 10) < 1e-9);
+  assert.equal(drawdown.max_drawdown_duration_candles, 1);
+  assert.equal(drawdown.max_drawdown_duration_days, 1);
+});
+
+test('a balance that never rises above the start counts from the start', () => {
+  const history = [
+    { timestamp: '2024-01-02 00:00:00', balance: 900 },
+    { timestamp: '2024-01-04 00:00:00', balance: 950 },
+  ];
+  const drawdown = calculateDrawdown(history, 1000, timeframeToMs('1d'), parseTimestamp(START));
+
+  assert.equal(drawdown.max_drawdown, 100);
+  assert.equal(drawdown.max_drawdown_duration_candles, 3);
+});
+
+test('Sharpe and Sortino annualise the per-candle returns', () => {
+  const metrics = calculateMetrics({
+    initialBalance: 1000,
+    balanceHistory: balanceHistory(),
+    trades: CLOSES.map(([entry, exit, pnl]) => trade(entry, exit, pnl)),
+    timeframe: '1d',
+    startTime: parseTimestamp(START),
+    endTime: parseTimestamp(END),
+  });
+
+  // Returns 0.1, -0.1 and 0.2222: mean 0.074074, population deviation 0.132818,
+  // downside deviation sqrt(0.01 / 3) = 0.057735, 365 daily candles a year
+  assert.ok(Math.abs(metrics.sharpe_ratio! - 10.655061) < 1e-6);
+  assert.ok(Math.abs(metrics.sortino_ratio! - 24.511692) < 1e-6);
+
+  assert.equal(metrics.net_pnl, 210);
+  assert.equal(metrics.max_drawdown, 110);
+  assert.ok(Math.abs(metrics.profit_factor! - 320 / 110) < 1e-9);
+  assert.equal(metrics.longest_win_streak, 1);
+  assert.equal(metrics.largest_loss, -110);
+  // Three 6 hour trades over three days
+  assert.ok(Math.abs(metrics.exposure_percent - 25) < 1e-9);
+});
+
+test('risk ratios are null without any variation', () => {
+  const metrics = calculateMetrics({
+    initialBalance: 1000,
+    balanceHistory: [],
+    trades: [],
+    timeframe: '1d',
+    startTime: parseTimestamp(START),
+    endTime: parseTimestamp(END),
+  });
+
+  assert.equal(metrics.sharpe_ratio, null);
+  assert.equal(metrics.sortino_ratio, null);
+  assert.equal(metrics.calmar_ratio, null);
+  assert.equal(metrics.profit_factor, null);
+});
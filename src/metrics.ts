@@ -0,0 +1,209 @@
+import moment from 'moment';
+import { BalanceUpdate, TradeDetailsResult } from './interfaces';
+
+const TIMESTAMP_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS; // Crypto markets trade every day of the year
+
+export interface DrawdownSummary {
+  max_drawdown: number;
+  max_drawdown_percent: number;
+  max_drawdown_duration_candles: number; // Longest stretch below a previous peak
+  max_drawdown_duration_days: number;
+}
+
+export interface PerformanceMetrics extends DrawdownSummary {
+  trade_count: number;
+  net_pnl: number;
+  return_percent: number;
+  annualized_return_percent: number;
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+  calmar_ratio: number | null;
+  profit_factor: number | null; // null when there are no losing trades
+  expectancy: number;
+  average_win: number;
+  average_loss: number;
+  largest_win: number;
+  largest_loss: number;
+  longest_win_streak: number;
+  longest_loss_streak: number;
+  exposure_percent: number;
+  average_candles_in_trade: number;
+}
+
+export function timeframeToMs(timeframe: string): number {
+  const match = /^(\d+)([mhdwM])$/.exec(timeframe);
+  if (!match) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+
+  const units: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: DAY_MS,
+    w: 7 * DAY_MS,
+    M: 30 * DAY_MS,
+  };
+  return parseInt(match[1], 10) * units[match[2]];
+}
+
+export function parseTimestamp(timestamp: string): number {
+  return moment(timestamp, TIMESTAMP_FORMAT).valueOf();
+}
+
+export function calculateDrawdown(
+  balanceHistory: Array<Pick<BalanceUpdate, 'timestamp' | 'balance'>>,
+  initialBalance: number,
+  timeframeMs?: number,
+  startTime?: number
+): DrawdownSummary {
+  let peak = initialBalance;
+  let peakTime = startTime ?? (balanceHistory.length > 0 ? parseTimestamp(balanceHistory[0].timestamp) : 0);
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let maxDuration = 0;
+
+  for (const update of balanceHistory) {
+    const time = parseTimestamp(update.timestamp);
+    if (update.balance >= peak) {
+      peak = update.balance;
+      peakTime = time;
+      continue;
+    }
+
+    const drawdown = peak - update.balance;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+    maxDuration = Math.max(maxDuration, time - peakTime);
+  }
+
+  return {
+    max_drawdown: maxDrawdown,
+    max_drawdown_percent: maxDrawdownPercent,
+    max_drawdown_duration_candles: timeframeMs ? Math.round(maxDuration / timeframeMs) : 0,
+    max_drawdown_duration_days: maxDuration / DAY_MS,
+  };
+}
+
+// Balance at the close of every candle in the period, trades are booked when they exit
+function getPeriodReturns(
+  balanceHistory: BalanceUpdate[],
+  initialBalance: number,
+  startTime: number,
+  endTime: number,
+  timeframeMs: number
+): number[] {
+  const returns: number[] = [];
+  let balance = initialBalance;
+  let next = 0;
+
+  for (let time = startTime + timeframeMs; time <= endTime; time += timeframeMs) {
+    const previous = balance;
+    while (next < balanceHistory.length && parseTimestamp(balanceHistory[next].timestamp) < time) {
+      balance = balanceHistory[next].balance;
+      next++;
+    }
+    returns.push(previous > 0 ? balance / previous - 1 : 0);
+  }
+
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function longestStreak(pnls: number[], predicate: (pnl: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const pnl of pnls) {
+    current = predicate(pnl) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// Share of the period with at least one open position, overlapping trades count once
+function calculateExposure(intervals: Array<[number, number]>, startTime: number, endTime: number): number {
+  if (endTime <= startTime) return 0;
+
+  let covered = 0;
+  let coveredUntil = -Infinity;
+  for (const [entry, exit] of [...intervals].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(entry, coveredUntil);
+    if (exit > from) {
+      covered += exit - from;
+      coveredUntil = exit;
+    }
+  }
+  return (covered / (endTime - startTime)) * 100;
+}
+
+export function calculateMetrics(input: {
+  initialBalance: number;
+  balanceHistory: BalanceUpdate[];
+  trades: TradeDetailsResult[];
+  timeframe: string;
+  startTime: number;
+  endTime: number;
+}): PerformanceMetrics {
+  const { initialBalance, balanceHistory, trades, startTime, endTime } = input;
+  const timeframeMs = timeframeToMs(input.timeframe);
+
+  // Trades in the order they were closed, which is the order the balance saw them
+  const closed = [...trades].sort(
+    (a, b) => parseTimestamp(a.trailing_details.exit_details.time) - parseTimestamp(b.trailing_details.exit_details.time)
+  );
+  const pnls = closed.map(trade => trade.costs.net_pnl);
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl <= 0);
+  const grossProfit = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+
+  const netPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
+  const finalBalance = initialBalance + netPnl;
+  const years = (endTime - startTime) / YEAR_MS;
+  const annualizedReturn = years > 0 && initialBalance > 0
+    ? (finalBalance > 0 ? Math.pow(finalBalance / initialBalance, 1 / years) - 1 : -1) * 100
+    : 0;
+
+  // Sharpe and Sortino come from per-candle returns scaled by the candles in a year
+  const returns = getPeriodReturns(balanceHistory, initialBalance, startTime, endTime, timeframeMs);
+  const periodsPerYear = YEAR_MS / timeframeMs;
+  const averageReturn = mean(returns);
+  const deviation = Math.sqrt(mean(returns.map(r => Math.pow(r - averageReturn, 2))));
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.pow(Math.min(0, r), 2))));
+
+  const drawdown = calculateDrawdown(balanceHistory, initialBalance, timeframeMs, startTime);
+
+  return {
+    trade_count: pnls.length,
+    net_pnl: netPnl,
+    return_percent: initialBalance > 0 ? (netPnl / initialBalance) * 100 : 0,
+    annualized_return_percent: annualizedReturn,
+    ...drawdown,
+    sharpe_ratio: deviation > 0 ? (averageReturn / deviation) * Math.sqrt(periodsPerYear) : null,
+    sortino_ratio: downsideDeviation > 0 ? (averageReturn / downsideDeviation) * Math.sqrt(periodsPerYear) : null,
+    calmar_ratio: drawdown.max_drawdown_percent > 0 ? annualizedReturn / drawdown.max_drawdown_percent : null,
+    profit_factor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: mean(pnls),
+    average_win: mean(wins),
+    average_loss: mean(losses),
+    largest_win: wins.length > 0 ? Math.max(...wins) : 0,
+    largest_loss: losses.length > 0 ? Math.min(...losses) : 0,
+    longest_win_streak: longestStreak(pnls, pnl => pnl > 0),
+    longest_loss_streak: longestStreak(pnls, pnl => pnl <= 0),
+    exposure_percent: calculateExposure(
+      closed.map(trade => [
+        parseTimestamp(trade.entry.time),
+        parseTimestamp(trade.trailing_details.exit_details.time),
+      ] as [number, number]),
+      startTime,
+      endTime
+    ),
+    average_candles_in_trade: mean(closed.map(trade => trade.trailing_details.trade_summary.candles_in_trade)),
+  };
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config from './config';
+import { compareResults, expandRange, OptimizationParameters, OptimizationResult, Optimizer } from './optimizer';
+
+type Evaluated = Omit<OptimizationResult, 'rank'>;
+
+function result(lookbackCandles: number, metrics: Partial<Evaluated>): Evaluated {
+  return {
+    lookbackCandles,
+    threshold: 4,
+    maxTriggerLevels: 20,
+    maxLookForwardCandles: 720,
+    trailingStopModel: 'step_ladder',
+    trade_count: 10,
+    net_pnl: 0,
+    win_rate: 50,
+    max_drawdown: 0,
+    max_drawdown_percent: 0,
+    ...metrics,
+  };
+}
+
+test('lists are sorted and deduplicated', () => {
+  assert.deepEqual(expandRange([96, 24, 48, 24]), [24, 48, 96]);
+});
+
+test('ranges include both ends', () => {
+  assert.deepEqual(expandRange({ start: 24, end: 96, step: 24 }), [24, 48, 72, 96]);
+  assert.deepEqual(expandRange({ start: 4, end: 4, step: 2 }), [4]);
+  // An end the step doesn't land on is left out
+  assert.deepEqual(expandRange({ start: 4, end: 9, step: 2 }), [4, 6, 8]);
+});
+
+test('fractional steps land on round values', () => {
+  assert.deepEqual(expandRange({ start: 0.1, end: 0.7, step: 0.1 }), [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7]);
+  assert.deepEqual(expandRange({ start: 1, end: 2, step: 0.25 }), [1, 1.25, 1.5, 1.75, 2]);
+});
+
+test('results rank best first for every metric', () => {
+  const results = [
+    result(24, { net_pnl: 50, win_rate: 40, max_drawdown_percent: 12, trade_count: 30 }),
+    result(48, { net_pnl: 120, win_rate: 55, max_drawdown_percent: 20, trade_count: 10 }),
+    result(72, { net_pnl: -10, win_rate: 70, max_drawdown_percent: 5, trade_count: 20 }),
+  ];
+  const order = (rankBy: Parameters<typeof compareResults>[0]) =>
+    [...results].sort(compareResults(rankBy)).map((r) => r.lookbackCandles);
+
+  assert.deepEqual(order('net_pnl'), [48, 24, 72]);
+  assert.deepEqual(order('win_rate'), [72, 48, 24]);
+  // Smallest drawdown first
+  assert.deepEqual(order('max_drawdown'), [72, 24, 48]);
+  assert.deepEqual(order('trade_count'), [24, 72, 48]);
+});
+
+test('ties are broken by net PnL', () => {
+  const results = [result(24, { win_rate: 60, net_pnl: 10 }), result(48, { win_rate: 60, net_pnl: 30 })];
+
+  assert.deepEqual([...results].sort(compareResults('win_rate')).map((r) => r.lookbackCandles), [48, 24]);
+});
+
+test('evaluateGrid numbers the ranked results from 1', async () => {
+  const optimizer = new Optimizer({ ...config, optimizer: { ...config.optimizer!, rankBy: 'net_pnl' } });
+  const pnlByLookback: Record<number, number> = { 24: 5, 48: 40, 72: -3, 96: 12 };
+  optimizer.evaluate = async (_symbol, _pairConfig, _candles, parameters: OptimizationParameters) =>
+    result(parameters.lookbackCandles, { net_pnl: pnlByLookback[parameters.lookbackCandles] });
+
+  const grid = optimizer.getParameterGrid().filter((parameters) => parameters.threshold === 4);
+  const ranked = await optimizer.evaluateGrid('ETHUSDT', config, [], grid);
+
+  assert.deepEqual(ranked.map((r) => [r.rank, r.lookbackCandles]), [[1, 48], [2, 96], [3, 24], [4, 72]]);
+});
+
+test('the grid covers every combination', () => {
+  const optimizer = new Optimizer({
+    ...config,
+    optimizer: {
+      ...config.optimizer!,
+      lookbackCandles: [24, 48],
+      thresholds: { start: 4, end: 8, step: 2 },
+      maxTriggerLevels: [20],
+      maxLookForwardCandles: [360, 720],
+      trailingStopModels: ['step_ladder', 'percent_trail', 'step_ladder'],
+    },
+  });
+
+  assert.equal(optimizer.getParameterGrid().length, 2 * 3 * 1 * 2 * 2);
+});
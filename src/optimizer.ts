@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import { Backtester } from './backtest';
+import { Candle } from './interfaces';
+import { CachedDataSource, createMarketDataSource, MarketDataSource } from './market-data';
+import { repairCandles } from './data-audit';
+import { mergeConfig } from './config-loader';
+import { toCsv, TableColumn } from './report-format';
+import { TrailingStopModel } from './trailing-stops';
+import config, {
+  TradingConfig,
+  ParameterRange,
+  AVAILABLE_SYMBOLS,
+  AVAILABLE_TIMEFRAMES,
+} from './config';
+
+export interface OptimizationParameters {
+  lookbackCandles: number;
+  threshold: number;
+  maxTriggerLevels: number;
+  maxLookForwardCandles: number;
+  trailingStopModel: TrailingStopModel;
+}
+
+export interface OptimizationResult extends OptimizationParameters {
+  rank: number;
+  trade_count: number;
+  net_pnl: number;
+  win_rate: number;
+  max_drawdown: number;
+  max_drawdown_percent: number;
+}
+
+type RankBy = NonNullable<TradingConfig['optimizer']>['rankBy'];
+
+const RESULT_COLUMNS: TableColumn<OptimizationResult>[] = [
+  { header: 'rank', value: (row) => row.rank },
+  { header: 'lookback_candles', value: (row) => row.lookbackCandles },
+  { header: 'threshold', value: (row) => row.threshold },
+  { header: 'max_trigger_levels', value: (row) => row.maxTriggerLevels },
+  { header: 'max_look_forward_candles', value: (row) => row.maxLookForwardCandles },
+  { header: 'trailing_stop_model', value: (row) => row.trailingStopModel },
+  { header: 'net_pnl', value: (row) => row.net_pnl.toFixed(2) },
+  { header: 'win_rate', value: (row) => row.win_rate.toFixed(2) },
+  { header: 'max_drawdown', value: (row) => row.max_drawdown.toFixed(2) },
+  { header: 'max_drawdown_percent', value: (row) => row.max_drawdown_percent.toFixed(2) },
+  { header: 'trade_count', value: (row) => row.trade_count },
+];
+
+export function expandRange(range: ParameterRange): number[] {
+  if (Array.isArray(range)) {
+    return [...new Set(range)].sort((a, b) => a - b);
+  }
+
+  const values: number[] = [];
+  const steps = Math.floor((range.end - range.start) / range.step + 1e-9);
+  for (let i = 0; i <= steps; i++) {
+    // Round away floating point drift from fractional steps such as 0.1
+    values.push(parseFloat((range.start + i * range.step).toFixed(10)));
+  }
+  return values;
+}
+
+export function compareResults(rankBy: RankBy) {
+  return (a: Omit<OptimizationResult, 'rank'>, b: Omit<OptimizationResult, 'rank'>): number => {
+    let difference = 0;
+    switch (rankBy) {
+      case 'net_pnl':
+        difference = b.net_pnl - a.net_pnl;
+        break;
+      case 'win_rate':
+        difference = b.win_rate - a.win_rate;
+        break;
+      case 'max_drawdown':
+        difference = a.max_drawdown_percent - b.max_drawdown_percent;
+        break;
+      case 'trade_count':
+        difference = b.trade_count - a.trade_count;
+        break;
+    }
+    // Fall back to net PnL so ties are still ordered meaningfully
+    return difference !== 0 ? difference : b.net_pnl - a.net_pnl;
+  };
+}
+
+export class Optimizer {
+  private settings: NonNullable<TradingConfig['optimizer']>;
+  private pairDataSource: { key: string; source: MarketDataSource } | null = null;
+
+  constructor(private runConfig: TradingConfig = config) {
+    if (!runConfig.optimizer) {
+      throw new Error('Optimizer configuration is missing');
+    }
+    this.settings = runConfig.optimizer;
+  }
+
+  getParameterGrid(): OptimizationParameters[] {
+    const grid: OptimizationParameters[] = [];
+    const trailingStopModels = [
+      ...new Set(this.settings.trailingStopModels ?? [this.runConfig.trade.trailingStop.model])
+    ];
+
+    for (const lookbackCandles of expandRange(this.settings.lookbackCandles)) {
+      for (const threshold of expandRange(this.settings.thresholds)) {
+        for (const maxTriggerLevels of expandRange(this.settings.maxTriggerLevels)) {
+          for (const maxLookForwardCandles of expandRange(this.settings.maxLookForwardCandles)) {
+            for (const trailingStopModel of trailingStopModels) {
+              grid.push({ lookbackCandles, threshold, maxTriggerLevels, maxLookForwardCandles, trailingStopModel });
+            }
+          }
+        }
+      }
+    }
+
+    return grid;
+  }
+
+  getPairs(): Array<{ symbol: string; timeframe: (typeof AVAILABLE_TIMEFRAMES)[number] }> {
+    if (!this.settings.allPairs) {
+      if (!this.runConfig.singleBacktest) {
+        throw new Error('Single backtest configuration is missing');
+      }
+      return [this.runConfig.singleBacktest];
+    }
+
+    const pairs = [];
+    for (const symbol of AVAILABLE_SYMBOLS) {
+      for (const timeframe of AVAILABLE_TIMEFRAMES) {
+        pairs.push({ symbol, timeframe });
+      }
+    }
+    return pairs;
+  }
+
+  applyParameters(
+    pairConfig: TradingConfig,
+    parameters: OptimizationParameters
+  ): TradingConfig {
+    return mergeConfig(pairConfig, {
+      strategy: {
+        lookbackPeriod: {
+          candles: parameters.lookbackCandles,
+          threshold: parameters.threshold,
+        },
+      },
+      trade: {
+        maxLookForwardCandles: parameters.maxLookForwardCandles,
+        trailingStop: {
+          model: parameters.trailingStopModel,
+          maxTriggerLevels: parameters.maxTriggerLevels,
+        },
+      },
+    });
+  }
+
+  async evaluate(
+    symbol: string,
+    pairConfig: TradingConfig,
+    candles: Candle[],
+    parameters: OptimizationParameters
+  ): Promise<Omit<OptimizationResult, 'rank'>> {
+    const backtester = new Backtester(
+      symbol,
+      this.applyParameters(pairConfig, parameters),
+      this.getDataSource(symbol, pairConfig.singleBacktest!.timeframe)
+    );
+    backtester.setCandles(candles);
+    await backtester.findMatchingCandles({ saveResults: false });
+
+    return { ...parameters, ...backtester.getPerformanceSummary() };
+  }
+
+  async evaluateGrid(
+    symbol: string,
+    pairConfig: TradingConfig,
+    candles: Candle[],
+    grid: OptimizationParameters[] = this.getParameterGrid()
+  ): Promise<OptimizationResult[]> {
+    const results: Omit<OptimizationResult, 'rank'>[] = [];
+    for (const parameters of grid) {
+      results.push(await this.evaluate(symbol, pairConfig, candles, parameters));
+    }
+
+    return results
+      .sort(compareResults(this.settings.rankBy))
+      .map((result, index) => ({ rank: index + 1, ...result }));
+  }
+
+  async loadCandles(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number]
+  ): Promise<Candle[]> {
+    const pairConfig = this.getPairConfig(symbol, timeframe);
+    const candles = await this.getDataSource(symbol, timeframe).loadCandles(symbol, timeframe);
+    return pairConfig.dataQuality.repair ? repairCandles(candles).candles : candles;
+  }
+
+  // Every combination of the pair being optimized reads the same execution and
+  // intrabar candles, so they are parsed once. Only one pair is kept in memory.
+  getDataSource(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number]
+  ): MarketDataSource {
+    const key = `${symbol}/${timeframe}`;
+    if (this.pairDataSource?.key !== key) {
+      const source = createMarketDataSource(this.getPairConfig(symbol, timeframe));
+      this.pairDataSource = { key, source: new CachedDataSource(source) };
+    }
+    return this.pairDataSource.source;
+  }
+
+  async optimizePair(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number]
+  ): Promise<OptimizationResult[]> {
+    console.log(`\n=== Optimizing ${symbol} - ${timeframe} ===`);
+    const pairConfig = this.getPairConfig(symbol, timeframe);
+
+    // Candles are read once and shared by every parameter combination
+    const candles = await this.loadCandles(symbol, timeframe);
+    if (candles.length === 0) {
+      console.log(`No candles found for ${symbol} - ${timeframe}`);
+      return [];
+    }
+
+    const grid = this.getParameterGrid();
+    console.log(`Evaluating ${grid.length} parameter combinations on ${candles.length} candles`);
+
+    const results = await this.evaluateGrid(symbol, pairConfig, candles, grid);
+    await this.saveResults(symbol, timeframe, results);
+    return results;
+  }
+
+  async optimizeAll(): Promise<void> {
+    const pairs = this.getPairs();
+    console.log(`Starting optimization for ${pairs.length} pair(s), ranked by ${this.settings.rankBy}`);
+
+    for (const { symbol, timeframe } of pairs) {
+      try {
+        await this.optimizePair(symbol, timeframe);
+      } catch (error) {
+        console.error(`❌ Error optimizing ${symbol} - ${timeframe}:`, error);
+        if (!this.settings.allPairs) {
+          throw error;
+        }
+      }
+    }
+
+    console.log('\nOptimization complete!');
+  }
+
+  getPairConfig(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number]
+  ): TradingConfig {
+    return {
+      ...this.runConfig,
+      singleBacktest: {
+        symbol,
+        timeframe
+      }
+    };
+  }
+
+  private async saveResults(
+    symbol: string,
+    timeframe: string,
+    results: OptimizationResult[]
+  ): Promise<void> {
+    const symbolDir = path.join(__dirname, `../results/${symbol}`);
+    if (!fs.existsSync(symbolDir)) {
+      await fs.promises.mkdir(symbolDir, { recursive: true });
+    }
+
+    const jsonPath = path.join(symbolDir, `${timeframe}_optimization.json`);
+    const csvPath = path.join(symbolDir, `${timeframe}_optimization.csv`);
+
+    await fs.promises.writeFile(
+      jsonPath,
+      JSON.stringify({
+        symbol,
+        timeframe,
+        rank_by: this.settings.rankBy,
+        combinations: results.length,
+        config: this.runConfig,
+        results
+      }, null, 2)
+    );
+    await fs.promises.writeFile(csvPath, toCsv(results, RESULT_COLUMNS));
+
+    console.log(`\nTop results for ${symbol} - ${timeframe} (ranked by ${this.settings.rankBy}):`);
+    console.table(results.slice(0, 10).map((row) => RESULT_COLUMNS.reduce(
+      (table, column) => ({ ...table, [column.header]: column.value(row) }),
+      {} as Record<string, string | number>
+    )));
+    console.log(`Optimization results saved to ${jsonPath} and ${csvPath}`);
+  }
+}
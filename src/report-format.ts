@@ -0,0 +1,30 @@
+export interface TableColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+}
+
+function escapeCsvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: TableColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(column.value(row))).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function escapeMarkdownValue(value: string | number): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function toMarkdownTable<T>(rows: T[], columns: TableColumn<T>[]): string {
+  const lines = [
+    `| ${columns.map((column) => escapeMarkdownValue(column.header)).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((column) => escapeMarkdownValue(column.value(row))).join(' | ')} |`),
+  ];
+  return lines.join('\n') + '\n';
+}
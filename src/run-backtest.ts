@@ -1,80 +1,166 @@
 import { BatchProcessor } from './batch-processor';
 import { Backtester } from './backtest';
-import { DataFetcher } from './data-fetcher';
-import config from './config';
-import path from 'path';
-import fs from 'fs';
-
-async function getAllCsvFiles(symbol: string, timeframe: string): Promise<string[]> {
-  const klineDir = path.join(
-    __dirname, 
-    `../kline/${symbol}/${timeframe}/csv`
-  );
-  const files = await fs.promises.readdir(klineDir);
-  return files
-    .filter((file) => file.endsWith('.csv'))
-    .sort()
-    .map((file) => path.join(klineDir, file));
-}
+import { Optimizer } from './optimizer';
+import { WalkForwardAnalyzer } from './walk-forward';
+import { TradingConfig } from './config';
+import { CliOptions, CliUsageError, EXIT_CODES, getUsage, parseCliArgs } from './cli';
+import { ConfigValidationError } from './config-loader';
+import { createMarketDataSource } from './market-data';
+import { DataAuditor } from './data-audit';
 
-async function runSingleBacktest() {
-  if (!config.singleBacktest) {
-    throw new Error('Single backtest configuration is missing');
+function getSingleBacktest(runConfig: TradingConfig): NonNullable<TradingConfig['singleBacktest']> {
+  if (!runConfig.singleBacktest || !runConfig.singleBacktest.symbol) {
+    throw new Error('Single backtest configuration is missing (set singleBacktest in config or pass --symbol)');
   }
+  return runConfig.singleBacktest;
+}
+
+async function fetchData(runConfig: TradingConfig) {
+  const { symbol, timeframe } = getSingleBacktest(runConfig);
 
-  const { symbol, timeframe } = config.singleBacktest;
-  
-  console.log(`Running single backtest for ${symbol} on ${timeframe} timeframe`);
-  
-  // First: Download data
   console.log('\n=== Starting Data Download Phase ===');
-  const dataFetcher = new DataFetcher(symbol, config);
-  await dataFetcher.fetchHistoricalData();
+  await createMarketDataSource(runConfig).prepare(symbol, timeframe);
   console.log('✅ Data download complete');
+}
+
+async function runSingleBacktest(runConfig: TradingConfig, skipFetch: boolean) {
+  const { symbol, timeframe } = getSingleBacktest(runConfig);
+
+  console.log(`Running single backtest for ${symbol} on ${timeframe} timeframe`);
+
+  // First: Download data
+  if (!skipFetch) {
+    await fetchData(runConfig);
+  }
 
   // Second: Run backtest
   console.log('\n=== Starting Backtest Phase ===');
-  const backtester = new Backtester(symbol, config);
-  const csvFiles = await getAllCsvFiles(symbol, timeframe);
-
-  console.log(`Loading ${csvFiles.length} CSV files...`);
-  for (const csvFile of csvFiles) {
-    await backtester.loadData(csvFile);
+  const backtester = new Backtester(symbol, runConfig);
+  await backtester.loadCandles(timeframe);
+  if (backtester.getCandles().length === 0) {
+    throw new Error(`No candles found for ${symbol} - ${timeframe}`);
   }
 
   await backtester.findMatchingCandles();
   console.log('✅ Backtest complete');
 }
 
-async function runBatchBacktest() {
-  const batchProcessor = new BatchProcessor(
-    config.backtestMode.batchProcessing?.parallel || false,
-    config.backtestMode.batchProcessing?.concurrencyLimit
+function createBatchProcessor(runConfig: TradingConfig): BatchProcessor {
+  return new BatchProcessor(
+    runConfig.backtestMode.batchProcessing?.parallel || false,
+    runConfig.backtestMode.batchProcessing?.concurrencyLimit,
+    runConfig
   );
-  
-  try {
-    await batchProcessor.processAll();
-    await batchProcessor.generateSummaryReport();
-  } catch (error) {
-    console.error('Error in batch processing:', error);
-    process.exit(1);
+}
+
+async function runBatchBacktest(runConfig: TradingConfig) {
+  const batchProcessor = createBatchProcessor(runConfig);
+
+  await batchProcessor.processAll();
+}
+
+async function fetchOptimizerPairs(runConfig: TradingConfig, optimizer: Optimizer) {
+  for (const pair of optimizer.getPairs()) {
+    await fetchData({ ...runConfig, singleBacktest: pair });
+  }
+}
+
+async function runOptimization(runConfig: TradingConfig, skipFetch: boolean) {
+  const optimizer = new Optimizer(runConfig);
+
+  if (!skipFetch) {
+    await fetchOptimizerPairs(runConfig, optimizer);
+  }
+
+  console.log('\n=== Starting Optimization Phase ===');
+  await optimizer.optimizeAll();
+}
+
+async function runWalkForward(runConfig: TradingConfig, skipFetch: boolean) {
+  if (!skipFetch) {
+    await fetchOptimizerPairs(runConfig, new Optimizer(runConfig));
   }
+
+  console.log('\n=== Starting Walk-Forward Phase ===');
+  await new WalkForwardAnalyzer(runConfig).analyzeAll();
+}
+
+async function runReport(runConfig: TradingConfig) {
+  const batchProcessor = createBatchProcessor(runConfig);
+
+  await batchProcessor.collectExistingResults();
+  await batchProcessor.generateSummaryReport();
 }
 
-async function main() {
+async function runAudit(runConfig: TradingConfig) {
+  const { symbol } = getSingleBacktest(runConfig);
+
+  console.log(`\n=== Auditing ${symbol} klines ===`);
+  await new DataAuditor(runConfig).auditSymbol(symbol);
+}
+
+async function runCommand(options: CliOptions) {
+  switch (options.command) {
+    case 'fetch':
+      await fetchData(options.runConfig);
+      break;
+    case 'backtest':
+      await runSingleBacktest(options.runConfig, options.skipFetch);
+      break;
+    case 'batch':
+      await runBatchBacktest(options.runConfig);
+      break;
+    case 'optimize':
+      await runOptimization(options.runConfig, options.skipFetch);
+      break;
+    case 'walk-forward':
+      await runWalkForward(options.runConfig, options.skipFetch);
+      break;
+    case 'report':
+      await runReport(options.runConfig);
+      break;
+    case 'audit':
+      await runAudit(options.runConfig);
+      break;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
   try {
-    if (config.backtestMode.type === 'single') {
-      await runSingleBacktest();
-    } else {
-      await runBatchBacktest();
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`Error: ${error.message}\n`);
+      console.error(getUsage());
+      return EXIT_CODES.usage;
+    }
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+      return EXIT_CODES.usage;
     }
+    throw error;
+  }
+
+  if (options.help) {
+    console.log(getUsage());
+    return EXIT_CODES.success;
+  }
+
+  try {
+    await runCommand(options);
+    return EXIT_CODES.success;
   } catch (error) {
-    console.error('Error running backtest:', error);
-    process.exit(1);
+    console.error(`Error running ${options.command}:`, error);
+    return EXIT_CODES.failure;
   }
 }
 
-main().catch((error) => {
-  console.error('Error running analysis:', error);
-  process.exit(1);
-});
\ No newline at end of file
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    console.error('Error running analysis:', error);
+    process.exitCode = EXIT_CODES.failure;
+  });
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { DeepPartial, mergeConfig } from './config-loader';
+import { CandleSeries } from './candle-series';
+import { Candle } from './interfaces';
+import { SignalFilters } from './signal-filters';
+import { StrategyEntry, StrategySignal } from './strategies';
+
+// Monday 2024-01-01, hourly
+const START = Date.UTC(2024, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+// Ten candles with a volume of 100 closing at 100 to 109
+const HISTORY: Candle[] = Array.from({ length: 10 }, (_, i) => candle(i, 100 + i - 1, 100 + i, 100));
+
+function candle(i: number, open: number, close: number, volume: number, high = Math.max(open, close), low = Math.min(open, close)): Candle {
+  return { openTime: START + i * HOUR_MS, open, high, low, close, volume, closeTime: START + (i + 1) * HOUR_MS - 1 };
+}
+
+function createFilters(filters: DeepPartial<TradingConfig['strategy']['filters']>): SignalFilters {
+  return new SignalFilters(mergeConfig(config, { strategy: { lookbackPeriod: { candles: 10 }, filters } }));
+}
+
+// Checks a signal on a candle appended after HISTORY
+function check(filters: SignalFilters, signalCandle: Candle, baselineMovement = 1) {
+  const signal: StrategySignal = {
+    index: HISTORY.length,
+    timestamp: '',
+    candle: signalCandle,
+    movement: 3,
+    averageMovement: baselineMovement,
+    baselineEstimator: 'mean',
+    baselineMovement,
+    dynamicThreshold: 2,
+    upperThreshold: signalCandle.close * 1.02,
+    lowerThreshold: signalCandle.close * 0.98,
+  };
+  return filters.checkSignal(new CandleSeries([...HISTORY, signalCandle]), signal);
+}
+
+function entry(direction: 'LONG' | 'SHORT', entryPrice: number): StrategyEntry {
+  return { direction, crossed_at: '', entry_price: entryPrice, candles_until_cross: 1 };
+}
+
+const SIGNAL = candle(10, 110, 113, 200);
+
+test('nothing is filtered by default', () => {
+  const filters = new SignalFilters(config);
+
+  assert.equal(check(filters, candle(10, 110, 110.1, 1, 120, 100), 0), null);
+  assert.equal(filters.checkEntry(new CandleSeries(HISTORY), entry('SHORT', 200), 5), null);
+});
+
+test('the volume filter compares with a multiple of the lookback average', () => {
+  const filters = createFilters({ volume: { enabled: true, multiple: 1.5 } });
+
+  assert.equal(check(filters, candle(10, 110, 113, 149)), 'volume');
+  assert.equal(check(filters, candle(10, 110, 113, 150)), null);
+});
+
+test('the body ratio filter rejects wicks', () => {
+  const filters = createFilters({ bodyRatio: { enabled: true, min: 0.5 } });
+
+  // A body of 3 in a range of 20
+  assert.equal(check(filters, candle(10, 110, 113, 200, 120, 100)), 'body_ratio');
+  assert.equal(check(filters, candle(10, 110, 113, 200, 114, 109)), null);
+  // A candle without a range has no body either
+  assert.equal(check(filters, candle(10, 110, 110, 200)), 'body_ratio');
+});
+
+test('the minimum average movement filter rejects near-zero baselines', () => {
+  const filters = createFilters({ minAverageMovement: { enabled: true, percent: 0.05 } });
+
+  assert.equal(check(filters, SIGNAL, 0.01), 'min_average_movement');
+  assert.equal(check(filters, SIGNAL, 0.05), null);
+});
+
+test('the session filter rejects excluded UTC hours and weekdays', () => {
+  // SIGNAL opens on Monday at 10:00 UTC
+  assert.equal(check(createFilters({ session: { enabled: true, excludedHours: [10] } }), SIGNAL), 'session');
+  assert.equal(check(createFilters({ session: { enabled: true, excludedWeekdays: [1] } }), SIGNAL), 'session');
+  assert.equal(check(createFilters({ session: { enabled: true, excludedHours: [9, 11], excludedWeekdays: [0, 6] } }), SIGNAL), null);
+});
+
+test('the first failing filter is reported', () => {
+  const filters = createFilters({
+    minAverageMovement: { enabled: true, percent: 0.05 },
+    volume: { enabled: true, multiple: 10 },
+  });
+
+  assert.equal(check(filters, SIGNAL, 0.01), 'min_average_movement');
+  assert.equal(check(filters, SIGNAL), 'volume');
+});
+
+test('the trend filter checks the entry against the moving average of earlier closes', () => {
+  const filters = createFilters({ trend: { enabled: true, period: 4 } });
+  const series = new CandleSeries(HISTORY);
+
+  // Closes 105 to 108 before index 9 average 106.5
+  assert.equal(filters.checkEntry(series, entry('LONG', 107), 9), null);
+  assert.equal(filters.checkEntry(series, entry('LONG', 106), 9), 'trend');
+  assert.equal(filters.checkEntry(series, entry('SHORT', 106), 9), null);
+  assert.equal(filters.checkEntry(series, entry('SHORT', 107), 9), 'trend');
+  // Nothing to average before the first candle
+  assert.equal(filters.checkEntry(series, entry('SHORT', 200), 0), null);
+});
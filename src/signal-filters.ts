@@ -0,0 +1,64 @@
+import config, { TradingConfig } from './config';
+import { CandleSeries } from './candle-series';
+import { StrategyEntry, StrategySignal } from './strategies';
+
+export type SignalFilterName = 'volume' | 'body_ratio' | 'min_average_movement' | 'session' | 'trend';
+
+export const SIGNAL_FILTER_MESSAGES: Record<SignalFilterName, string> = {
+  volume: 'volume below the lookback average multiple',
+  body_ratio: 'body too small for the candle range',
+  min_average_movement: 'baseline movement too small',
+  session: 'excluded hour or weekday',
+  trend: 'entry against the moving average trend',
+};
+
+export class SignalFilters {
+  constructor(private runConfig: TradingConfig = config) {}
+
+  // Filters that only need the signal candle, run before looking for the entry
+  checkSignal(series: CandleSeries, signal: StrategySignal): SignalFilterName | null {
+    const { filters, lookbackPeriod } = this.runConfig.strategy;
+    const candle = signal.candle;
+
+    if (filters.minAverageMovement.enabled && signal.baselineMovement < filters.minAverageMovement.percent) {
+      return 'min_average_movement';
+    }
+
+    if (filters.volume.enabled) {
+      const averageVolume = series.mean('volume', Math.max(0, signal.index - lookbackPeriod.candles), signal.index);
+      if (candle.volume < averageVolume * filters.volume.multiple) return 'volume';
+    }
+
+    if (filters.bodyRatio.enabled) {
+      const range = candle.high - candle.low;
+      const bodyRatio = range > 0 ? Math.abs(candle.close - candle.open) / range : 0;
+      if (bodyRatio < filters.bodyRatio.min) return 'body_ratio';
+    }
+
+    if (filters.session.enabled) {
+      const openTime = new Date(candle.openTime);
+      if (filters.session.excludedHours.includes(openTime.getUTCHours()) ||
+          filters.session.excludedWeekdays.includes(openTime.getUTCDay())) {
+        return 'session';
+      }
+    }
+
+    return null;
+  }
+
+  // The trend filter needs the side the entry filled on
+  checkEntry(series: CandleSeries, entry: StrategyEntry, entryIndex: number): SignalFilterName | null {
+    const { trend } = this.runConfig.strategy.filters;
+    if (!trend.enabled) return null;
+
+    // Closes before the entry candle, its own close isn't known at the fill
+    const from = Math.max(0, entryIndex - trend.period);
+    if (entryIndex <= from) return null;
+
+    const movingAverage = series.mean('close', from, entryIndex);
+    const withTrend = entry.direction === 'LONG'
+      ? entry.entry_price > movingAverage
+      : entry.entry_price < movingAverage;
+    return withTrend ? null : 'trend';
+  }
+}
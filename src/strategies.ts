@@ -0,0 +1,80 @@
+import config, { TradingConfig, STRATEGY_NAMES } from './config';
+import { BaselineEstimator, Candle, IntrabarResolution } from './interfaces';
+import { IntrabarResolver } from './intrabar';
+import { CandleSeries } from './candle-series';
+import { StopMove, TrailingStop } from './trailing-stops';
+import { LegendCandleStrategy } from './legend-candle-strategy';
+
+export type StrategyName = (typeof STRATEGY_NAMES)[number];
+
+// What the backtester shares with a strategy on every call
+export interface StrategyContext {
+  candles: Candle[];
+  series: CandleSeries; // The same candles in typed arrays with O(1) window sums
+  intrabar: IntrabarResolver;
+}
+
+// A candle the strategy wants to trade off, with the levels that would fill it
+export interface StrategySignal {
+  index: number;
+  timestamp: string;
+  candle: Candle;
+  movement: number; // Percent body move of the signal candle
+  averageMovement: number;
+  baselineEstimator: BaselineEstimator;
+  baselineMovement: number;
+  dynamicThreshold: number; // Percent distance for entries, stops and take-profit multiples
+  upperThreshold: number; // LONG fills above it
+  lowerThreshold: number; // SHORT fills below it
+}
+
+export interface StrategyEntry {
+  direction: 'LONG' | 'SHORT';
+  crossed_at: string;
+  entry_price: number;
+  candles_until_cross: number;
+  entryCandleData?: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+  };
+  resolution?: IntrabarResolution;
+}
+
+export interface StrategyPosition {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  entryIndex: number;
+  signal: StrategySignal;
+}
+
+export interface Strategy {
+  readonly name: StrategyName;
+  // Candles needed before the first candle can be checked
+  getWarmupCandles(): number;
+  // Checks a closed candle, returns a signal or null
+  onCandle(context: StrategyContext, index: number): StrategySignal | null;
+  // Looks forward from the signal for the fill, null when it never triggers
+  onEntrySignal(context: StrategyContext, signal: StrategySignal): Promise<StrategyEntry | null>;
+  // The stop a new position starts with
+  onPositionOpen(context: StrategyContext, position: StrategyPosition): TrailingStop;
+  // Stop moves a candle makes while the position is open, in price order
+  onPositionUpdate(
+    context: StrategyContext,
+    position: StrategyPosition,
+    stop: TrailingStop,
+    candle: Candle,
+    index: number
+  ): StopMove[];
+}
+
+// Every name in STRATEGY_NAMES needs a factory here
+const STRATEGIES: Record<StrategyName, (runConfig: TradingConfig) => Strategy> = {
+  legend_candle: (runConfig) => new LegendCandleStrategy(runConfig),
+};
+
+export function createStrategy(runConfig: TradingConfig = config): Strategy {
+  return STRATEGIES[runConfig.strategy.name](runConfig);
+}
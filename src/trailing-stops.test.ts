@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { DeepPartial, mergeConfig } from './config-loader';
+import { CandleSeries } from './candle-series';
+import { Candle } from './interfaces';
+import { createTrailingStop, StopMove, TrailingStop, TrailingStopModel } from './trailing-stops';
+
+// Ten candles with a 1% body and a true range of 2
+const HISTORY: Candle[] = Array.from({ length: 10 }, (_, i) => bar(100, 101, 99, 101, i));
+const ENTRY_INDEX = 5;
+
+function bar(open: number, high: number, low: number, close: number, i = 0): Candle {
+  return { openTime: i * 3600_000, open, high, low, close, volume: 1, closeTime: (i + 1) * 3600_000 - 1 };
+}
+
+// Entry at 100, by default on a legend candle with a 2% threshold so the step is 2
+function createStop(
+  model: TrailingStopModel,
+  side: 'LONG' | 'SHORT' = 'LONG',
+  trailingStop: DeepPartial<TradingConfig['trade']['trailingStop']> = {},
+  dynamicThreshold = 2
+): TrailingStop {
+  const runConfig = mergeConfig(config, {
+    strategy: { lookbackPeriod: { candles: 5, threshold: 2 } },
+    trade: { trailingStop: { model, ...trailingStop } },
+  });
+  return createTrailingStop(
+    { side, entryPrice: 100, entryIndex: ENTRY_INDEX, dynamicThreshold, candles: HISTORY, series: new CandleSeries(HISTORY) },
+    runConfig
+  );
+}
+
+// Applies the candle's moves like the backtester does and returns them
+function step(stop: TrailingStop, candle: Candle, index = ENTRY_INDEX + 1): StopMove[] {
+  const moves = stop.getMoves(candle, index);
+  stop.apply(candle, moves);
+  return moves;
+}
+
+function assertMoves(actual: StopMove[], expected: StopMove[]): void {
+  assert.equal(actual.length, expected.length, `expected ${expected.length} moves, got ${JSON.stringify(actual)}`);
+  actual.forEach((move, i) => {
+    assert.ok(Math.abs(move.trigger - expected[i].trigger) < 1e-9, `trigger ${move.trigger} != ${expected[i].trigger}`);
+    assert.ok(Math.abs(move.stop - expected[i].stop) < 1e-9, `stop ${move.stop} != ${expected[i].stop}`);
+  });
+}
+
+test('the step ladder moves one step behind every trigger the candle reaches', () => {
+  const stop = createStop('step_ladder');
+  assert.equal(stop.stop, 98);
+
+  assertMoves(step(stop, bar(100, 104.5, 100, 104)), [{ trigger: 102, stop: 100 }, { trigger: 104, stop: 102 }]);
+  assert.equal(stop.stop, 102);
+  // Triggers already hit don't move it again
+  assertMoves(step(stop, bar(104, 105, 103, 104)), []);
+  assertMoves(step(stop, bar(104, 106, 104, 106)), [{ trigger: 106, stop: 104 }]);
+});
+
+test('the step ladder stops at maxTriggerLevels and can step by a fixed percent', () => {
+  const capped = createStop('step_ladder', 'LONG', { maxTriggerLevels: 1 });
+  assertMoves(step(capped, bar(100, 110, 100, 110)), [{ trigger: 102, stop: 100 }]);
+
+  const fixed = createStop('step_ladder', 'LONG', { usesDynamicThreshold: false, stepPercent: 1 });
+  assert.equal(fixed.stop, 99);
+  assertMoves(step(fixed, bar(100, 101.5, 100, 101)), [{ trigger: 101, stop: 100 }]);
+});
+
+test('short ladders mirror long ones', () => {
+  const stop = createStop('step_ladder', 'SHORT');
+  assert.equal(stop.stop, 102);
+
+  assertMoves(step(stop, bar(100, 100, 97.5, 98)), [{ trigger: 98, stop: 100 }]);
+});
+
+test('the percent trail follows the best price since entry', () => {
+  const stop = createStop('percent_trail', 'LONG', { trailPercent: 2 });
+  assert.equal(stop.stop, 98);
+
+  assertMoves(step(stop, bar(100, 110, 100, 109)), [{ trigger: 110, stop: 107.8 }]);
+  // Below the highest high so far
+  assertMoves(step(stop, bar(109, 109.5, 108, 108)), []);
+
+  const short = createStop('percent_trail', 'SHORT', { trailPercent: 2 });
+  assertMoves(step(short, bar(100, 100, 90, 91)), [{ trigger: 90, stop: 91.8 }]);
+});
+
+test('the chandelier stop trails by a multiple of the average true range of earlier candles', () => {
+  const stop = createStop('atr_chandelier', 'LONG', { atr: { period: 3, multiplier: 2 } });
+  // Three candles with a true range of 2 before entry
+  assert.equal(stop.stop, 96);
+
+  assertMoves(step(stop, bar(101, 110, 101, 109)), [{ trigger: 110, stop: 106 }]);
+});
+
+test('breakeven then trail waits for minProfitToTrail before moving to entry', () => {
+  const stop = createStop('breakeven_then_trail', 'LONG', { minProfitToTrail: 1 });
+  assert.equal(stop.stop, 98);
+
+  assertMoves(step(stop, bar(100, 100.5, 99.5, 100.5)), []);
+  // One step behind 101.5 is still below entry
+  assertMoves(step(stop, bar(100.5, 101.5, 100.5, 101.5)), [{ trigger: 101, stop: 100 }]);
+  assertMoves(step(stop, bar(101.5, 104, 101.5, 104)), [{ trigger: 104, stop: 102 }]);
+});
+
+test('the rolling ladder sizes its steps from the lookback candles', () => {
+  // Entered on a 3% legend candle, the lookback bodies give a 2% step
+  const stop = createStop('rolling_ladder', 'LONG', {}, 3);
+  assert.equal(stop.stop, 97);
+
+  assertMoves(step(stop, bar(100, 104.5, 100, 104)), [{ trigger: 102, stop: 100 }, { trigger: 104, stop: 102 }]);
+  // The next step is 2% of the last trigger
+  assertMoves(step(stop, bar(104, 106.1, 104, 106)), [{ trigger: 106.08, stop: 104 }]);
+});
@@ -0,0 +1,237 @@
+import config, { TradingConfig } from './config';
+import { Candle } from './interfaces';
+import { CandleSeries } from './candle-series';
+
+export type TrailingStopModel = TradingConfig['trade']['trailingStop']['model'];
+
+// A favorable level a candle reached and the stop it moves the position to
+export interface StopMove {
+  trigger: number;
+  stop: number;
+}
+
+export interface TrailingStopContext {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  entryIndex: number;
+  dynamicThreshold: number; // Percent, from the legend candle
+  candles: Candle[];
+  series: CandleSeries;
+}
+
+export interface TrailingStop {
+  readonly stop: number;
+  // Moves the candle would make in price order, without applying them yet
+  getMoves(candle: Candle, index: number): StopMove[];
+  // Called once the position survived the first part of the candle
+  apply(candle: Candle, moves: StopMove[]): void;
+}
+
+abstract class BaseTrailingStop implements TrailingStop {
+  stop: number;
+  protected direction: 1 | -1;
+
+  constructor(
+    protected context: TrailingStopContext,
+    protected runConfig: TradingConfig
+  ) {
+    this.direction = context.side === 'LONG' ? 1 : -1;
+    this.stop = context.entryPrice - this.direction * this.getStepDistance();
+  }
+
+  abstract getMoves(candle: Candle, index: number): StopMove[];
+
+  apply(_candle: Candle, moves: StopMove[]): void {
+    if (moves.length > 0) this.stop = moves[moves.length - 1].stop;
+  }
+
+  // One ladder step, the legend candle's threshold or a fixed share of the entry price
+  protected getStepDistance(): number {
+    const { trailingStop } = this.runConfig.trade;
+    const percent = trailingStop.usesDynamicThreshold ? this.context.dynamicThreshold : trailingStop.stepPercent;
+    return this.context.entryPrice * (percent / 100);
+  }
+
+  protected reaches(candle: Candle, level: number): boolean {
+    return this.context.side === 'LONG' ? candle.high >= level : candle.low <= level;
+  }
+
+  protected improves(stop: number, current: number = this.stop): boolean {
+    return this.direction * (stop - current) > 0;
+  }
+}
+
+// The original ladder: every step beyond entry pulls the stop to one step behind it
+class StepLadderStop extends BaseTrailingStop {
+  private triggersHit = 0;
+
+  getMoves(candle: Candle): StopMove[] {
+    const step = this.getStepDistance();
+    const moves: StopMove[] = [];
+    for (let level = this.triggersHit + 1; level <= this.runConfig.trade.trailingStop.maxTriggerLevels; level++) {
+      const trigger = this.context.entryPrice + this.direction * step * level;
+      if (!this.reaches(candle, trigger)) break;
+      moves.push({ trigger, stop: trigger - this.direction * step });
+    }
+    return moves;
+  }
+
+  apply(candle: Candle, moves: StopMove[]): void {
+    super.apply(candle, moves);
+    this.triggersHit += moves.length;
+  }
+}
+
+// Like the step ladder, but each step is sized from the average movement of the
+// lookback candles before the current one instead of the legend candle's
+class RollingLadderStop extends BaseTrailingStop {
+  private triggersHit = 0;
+  private lastTrigger: number;
+
+  constructor(context: TrailingStopContext, runConfig: TradingConfig) {
+    super(context, runConfig);
+    this.lastTrigger = context.entryPrice;
+  }
+
+  getMoves(candle: Candle, index: number): StopMove[] {
+    const step = this.lastTrigger * (this.getRollingThreshold(index) / 100);
+    const moves: StopMove[] = [];
+    if (step <= 0) return moves;
+
+    let trigger = this.lastTrigger;
+    for (let level = this.triggersHit + 1; level <= this.runConfig.trade.trailingStop.maxTriggerLevels; level++) {
+      trigger += this.direction * step;
+      if (!this.reaches(candle, trigger)) break;
+      moves.push({ trigger, stop: trigger - this.direction * step });
+    }
+    return moves;
+  }
+
+  apply(candle: Candle, moves: StopMove[]): void {
+    super.apply(candle, moves);
+    this.triggersHit += moves.length;
+    if (moves.length > 0) this.lastTrigger = moves[moves.length - 1].trigger;
+  }
+
+  private getRollingThreshold(index: number): number {
+    const { candles: lookback, threshold } = this.runConfig.strategy.lookbackPeriod;
+    if (index === 0) return this.context.dynamicThreshold;
+
+    return threshold * this.context.series.mean('body_percent', Math.max(0, index - lookback), index);
+  }
+}
+
+// Trails the highest high (lowest low for shorts) since entry by a distance
+abstract class ExtremeTrailStop extends BaseTrailingStop {
+  protected extreme: number;
+
+  constructor(context: TrailingStopContext, runConfig: TradingConfig) {
+    super(context, runConfig);
+    this.extreme = context.entryPrice;
+    this.stop = context.entryPrice - this.direction * this.getDistance(context.entryIndex, context.entryPrice);
+  }
+
+  protected abstract getDistance(index: number, price: number): number;
+
+  getMoves(candle: Candle, index: number): StopMove[] {
+    const candleExtreme = this.context.side === 'LONG' ? candle.high : candle.low;
+    if (!this.improves(candleExtreme, this.extreme)) return [];
+
+    const stop = candleExtreme - this.direction * this.getDistance(index, candleExtreme);
+    return this.improves(stop) ? [{ trigger: candleExtreme, stop }] : [];
+  }
+
+  apply(candle: Candle, moves: StopMove[]): void {
+    super.apply(candle, moves);
+    const candleExtreme = this.context.side === 'LONG' ? candle.high : candle.low;
+    if (this.improves(candleExtreme, this.extreme)) this.extreme = candleExtreme;
+  }
+}
+
+// Chandelier exit: a multiple of the average true range below the highest high
+class AtrChandelierStop extends ExtremeTrailStop {
+  protected getDistance(index: number): number {
+    const { period, multiplier } = this.runConfig.trade.trailingStop.atr;
+    const { candles } = this.context;
+
+    // Only candles that closed before this one, the current range isn't known yet
+    let total = 0;
+    let count = 0;
+    for (let i = Math.max(1, index - period); i < index; i++) {
+      total += Math.max(
+        candles[i].high - candles[i].low,
+        Math.abs(candles[i].high - candles[i - 1].close),
+        Math.abs(candles[i].low - candles[i - 1].close)
+      );
+      count++;
+    }
+    return count > 0 ? (total / count) * multiplier : this.getStepDistance();
+  }
+}
+
+class PercentTrailStop extends ExtremeTrailStop {
+  protected getDistance(_index: number, price: number): number {
+    return price * (this.runConfig.trade.trailingStop.trailPercent / 100);
+  }
+}
+
+// Keeps the initial stop until the trade is minProfitToTrail percent in profit, then
+// moves it to entry and trails the best price by one step from there
+class BreakevenThenTrailStop extends BaseTrailingStop {
+  private armed = false;
+  private extreme: number;
+
+  constructor(context: TrailingStopContext, runConfig: TradingConfig) {
+    super(context, runConfig);
+    this.extreme = context.entryPrice;
+  }
+
+  getMoves(candle: Candle): StopMove[] {
+    const { entryPrice } = this.context;
+    const moves: StopMove[] = [];
+    let stop = this.stop;
+
+    if (!this.armed) {
+      const minProfit = this.runConfig.trade.trailingStop.minProfitToTrail ?? 0;
+      const breakevenTrigger = entryPrice * (1 + this.direction * minProfit / 100);
+      if (!this.reaches(candle, breakevenTrigger)) return moves;
+      if (this.improves(entryPrice, stop)) {
+        stop = entryPrice;
+        moves.push({ trigger: breakevenTrigger, stop });
+      }
+    }
+
+    const candleExtreme = this.context.side === 'LONG' ? candle.high : candle.low;
+    const trailed = candleExtreme - this.direction * this.getStepDistance();
+    if (this.improves(candleExtreme, this.extreme) && this.improves(trailed, stop)) {
+      moves.push({ trigger: candleExtreme, stop: trailed });
+    }
+    return moves;
+  }
+
+  apply(candle: Candle, moves: StopMove[]): void {
+    super.apply(candle, moves);
+    if (moves.length > 0) this.armed = true;
+    const candleExtreme = this.context.side === 'LONG' ? candle.high : candle.low;
+    if (this.armed && this.improves(candleExtreme, this.extreme)) this.extreme = candleExtreme;
+  }
+}
+
+export function createTrailingStop(
+  context: TrailingStopContext,
+  runConfig: TradingConfig = config
+): TrailingStop {
+  switch (runConfig.trade.trailingStop.model) {
+    case 'atr_chandelier':
+      return new AtrChandelierStop(context, runConfig);
+    case 'percent_trail':
+      return new PercentTrailStop(context, runConfig);
+    case 'breakeven_then_trail':
+      return new BreakevenThenTrailStop(context, runConfig);
+    case 'rolling_ladder':
+      return new RollingLadderStop(context, runConfig);
+    case 'step_ladder':
+    default:
+      return new StepLadderStop(context, runConfig);
+  }
+}
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config, { TradingConfig } from './config';
+import { mergeConfig } from './config-loader';
+import { CandleSeries } from './candle-series';
+import { BaselineEstimator, Candle } from './interfaces';
+import { calculateBaseline } from './volatility-baselines';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toCandles(bars: Array<[number, number, number, number]>): Candle[] {
+  return bars.map(([open, high, low, close], i) => ({
+    openTime: i * HOUR_MS, open, high, low, close, volume: 1, closeTime: (i + 1) * HOUR_MS - 1,
+  }));
+}
+
+function baselineConfig(percentile = 75): TradingConfig {
+  return mergeConfig(config, { strategy: { lookbackPeriod: { candles: 5 }, baseline: { percentile } } });
+}
+
+// Bodies of 1, 2, 3, 4 and 10% before the candle at index 5
+const BODIES = new CandleSeries(toCandles([...[1, 2, 3, 4, 10].map((body) => [100, 100 + body, 100, 100 + body] as [number, number, number, number]), [100, 100, 100, 100]]));
+
+function baseline(estimator: BaselineEstimator, runConfig = baselineConfig()): number {
+  return calculateBaseline(BODIES, 5, runConfig, estimator);
+}
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+test('mean, median and percentile of the lookback bodies', () => {
+  assertClose(baseline('mean'), 4);
+  // The 10% spike moves the mean but not the median
+  assertClose(baseline('median'), 3);
+  assertClose(baseline('percentile'), 4);
+  // Interpolated between 4 and 10
+  assertClose(baseline('percentile', baselineConfig(90)), 7.6);
+});
+
+test('the EMA weighs recent bodies more', () => {
+  // alpha = 2 / (5 + 1), seeded with the first body
+  const expected = [2, 3, 4, 10].reduce((average, body) => body / 3 + (average * 2) / 3, 1);
+  assertClose(baseline('ema'), expected);
+});
+
+test('the ATR baseline uses the true range including wicks and gaps', () => {
+  // Flat closes at 100 with wicks of 1, 2, 3 and 4 on each side, then a gap up to 110
+  const series = new CandleSeries(toCandles([
+    [100, 101, 99, 100],
+    [100, 102, 98, 100],
+    [100, 103, 97, 100],
+    [100, 104, 96, 100],
+    [110, 111, 109, 110],
+    [110, 110, 110, 110],
+  ]));
+
+  // True ranges of 2, 4, 6, 8 and 11 (the gap from 100 to 111) on previous closes of 100
+  assertClose(calculateBaseline(series, 5, baselineConfig(), 'atr'), (2 + 4 + 6 + 8 + 11) / 5);
+});
+
+test('the stddev baseline is the deviation of close-to-close returns', () => {
+  const closes = [100, 102, 99, 103, 101, 104, 104];
+  const series = new CandleSeries(toCandles(closes.map((close) => [close, close, close, close])));
+
+  // Returns of the candles at 1 to 5, the lookback before index 6
+  const returns = closes.slice(1, 6).map((close, i) => ((close - closes[i]) / closes[i]) * 100);
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / returns.length;
+
+  assertClose(calculateBaseline(series, 6, baselineConfig(), 'stddev'), Math.sqrt(variance));
+});
+
+test('estimators default to the configured one and are 0 without a lookback', () => {
+  const runConfig = mergeConfig(baselineConfig(), { strategy: { baseline: { estimator: 'median' } } });
+
+  assertClose(calculateBaseline(BODIES, 5, runConfig), 3);
+  for (const estimator of ['mean', 'median', 'ema', 'atr', 'stddev', 'percentile'] as const) {
+    assert.equal(calculateBaseline(BODIES, 0, runConfig, estimator), 0);
+  }
+});
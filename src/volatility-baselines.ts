@@ -0,0 +1,50 @@
+import config, { TradingConfig } from './config';
+import { BaselineEstimator } from './interfaces';
+import { CandleSeries } from './candle-series';
+
+// Linear interpolation between the closest ranks
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function ema(values: number[]): number {
+  const alpha = 2 / (values.length + 1);
+  return values.slice(1).reduce((average, value) => alpha * value + (1 - alpha) * average, values[0]);
+}
+
+// Percent size of a typical lookback candle before `index`, the threshold multiplies it.
+// mean, atr and stddev come from window sums; median, ema and percentile walk the window.
+export function calculateBaseline(
+  series: CandleSeries,
+  index: number,
+  runConfig: TradingConfig = config,
+  estimator: BaselineEstimator = runConfig.strategy.baseline.estimator
+): number {
+  const from = Math.max(0, index - runConfig.strategy.lookbackPeriod.candles);
+  if (index <= from) return 0;
+
+  switch (estimator) {
+    case 'median':
+      return percentile(series.values('body_percent', from, index), 50);
+    case 'ema':
+      return ema(series.values('body_percent', from, index));
+    case 'atr':
+      // True range includes wicks and gaps, as a percent of the previous close
+      return series.mean('true_range_percent', from, index);
+    case 'stddev': {
+      // Of close-to-close returns, from the sums of returns and squared returns
+      const average = series.mean('return_percent', from, index);
+      const variance = series.mean('return_percent_squared', from, index) - average * average;
+      return Math.sqrt(Math.max(0, variance));
+    }
+    case 'percentile':
+      return percentile(series.values('body_percent', from, index), runConfig.strategy.baseline.percentile);
+    case 'mean':
+    default:
+      return series.mean('body_percent', from, index);
+  }
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import moment from 'moment';
+import config, { TradingConfig } from './config';
+import { Candle } from './interfaces';
+import { OptimizationParameters } from './optimizer';
+import { WalkForwardAnalyzer } from './walk-forward';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function createAnalyzer(walkForward: TradingConfig['walkForward']): WalkForwardAnalyzer {
+  return new WalkForwardAnalyzer({
+    ...config,
+    dataFetch: { ...config.dataFetch, startDate: { year: 2024, month: 1 } },
+    singleBacktest: { symbol: 'ETHUSDT', timeframe: '1h' },
+    logging: { level: 'quiet' },
+    walkForward,
+  });
+}
+
+// Daily candles from 2024-01-01 up to and including the given day
+function dailyCandles(lastDay: string): Candle[] {
+  const candles: Candle[] = [];
+  for (let time = new Date(2024, 0, 1).getTime(); time <= moment(lastDay).valueOf(); time += DAY_MS) {
+    candles.push({ openTime: time, open: 100, high: 101, low: 100, close: 101, volume: 1, closeTime: time + DAY_MS - 1 });
+  }
+  return candles;
+}
+
+function formatWindows(windows: Array<{ trainStart: number; trainEnd: number; testEnd: number }>): string[][] {
+  const format = (timestamp: number) => moment(timestamp).format('YYYY-MM');
+  return windows.map((w) => [format(w.trainStart), format(w.trainEnd), format(w.testEnd)]);
+}
+
+test('windows roll forward by the test length until a test window would start after the data', () => {
+  const windows = createAnalyzer({ trainMonths: 3, testMonths: 1 }).getWindows(dailyCandles('2024-06-15'));
+
+  assert.deepEqual(formatWindows(windows), [
+    ['2024-01', '2024-04', '2024-05'],
+    ['2024-02', '2024-05', '2024-06'],
+    // The last test window is cut short by the data
+    ['2024-03', '2024-06', '2024-07'],
+  ]);
+});
+
+test('stepMonths sets the distance between windows', () => {
+  const windows = createAnalyzer({ trainMonths: 2, testMonths: 1, stepMonths: 2 }).getWindows(dailyCandles('2024-08-31'));
+
+  assert.deepEqual(formatWindows(windows), [
+    ['2024-01', '2024-03', '2024-04'],
+    ['2024-03', '2024-05', '2024-06'],
+    ['2024-05', '2024-07', '2024-08'],
+  ]);
+});
+
+test('there are no windows without enough data for one train window', () => {
+  const analyzer = createAnalyzer({ trainMonths: 6, testMonths: 2 });
+
+  assert.deepEqual(analyzer.getWindows([]), []);
+  assert.deepEqual(analyzer.getWindows(dailyCandles('2024-05-31')), []);
+});
+
+test('test windows prepend the strategy warm-up candles', async () => {
+  const analyzer = createAnalyzer({ trainMonths: 1, testMonths: 1 });
+  const pairConfig: TradingConfig = {
+    ...config,
+    singleBacktest: { symbol: 'ETHUSDT', timeframe: '1h' },
+    logging: { level: 'quiet' },
+  };
+  const candles: Candle[] = Array.from({ length: 300 }, (_, i) => ({
+    openTime: i * HOUR_MS, open: 100, high: 101, low: 100, close: 101, volume: 1, closeTime: (i + 1) * HOUR_MS - 1,
+  }));
+
+  for (const lookbackCandles of [24, 48]) {
+    const parameters: OptimizationParameters = {
+      lookbackCandles,
+      threshold: 4,
+      maxTriggerLevels: 20,
+      maxLookForwardCandles: 100,
+      trailingStopModel: 'step_ladder',
+    };
+    const backtester = await analyzer.runTestWindow('ETHUSDT', '1h', pairConfig, parameters, candles, 200, 250);
+
+    const warmup = backtester.getWarmupCandles();
+    assert.equal(warmup, lookbackCandles + 10);
+    assert.equal(backtester.getCandles()[0], candles[200 - warmup]);
+    assert.equal(backtester.getCandles().length, 50 + warmup);
+  }
+});
@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+import moment from 'moment';
+import { Backtester } from './backtest';
+import { Candle } from './interfaces';
+import { Optimizer, OptimizationParameters, OptimizationResult } from './optimizer';
+import { calculateDrawdown } from './metrics';
+import { findIndexAtOrAfter } from './kline-files';
+import config, { TradingConfig, AVAILABLE_TIMEFRAMES } from './config';
+
+interface WindowPerformance {
+  trade_count: number;
+  net_pnl: number;
+  win_rate: number;
+  max_drawdown: number;
+  max_drawdown_percent: number;
+}
+
+export interface WalkForwardWindow {
+  window: number;
+  train: { from: string; to: string; candles: number };
+  test: { from: string; to: string; candles: number };
+  parameters: OptimizationParameters;
+  in_sample: WindowPerformance;
+  out_of_sample: WindowPerformance;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  balance: number;
+  trade_pnl: number;
+  window: number;
+}
+
+export class WalkForwardAnalyzer {
+  private optimizer: Optimizer;
+  private settings: NonNullable<TradingConfig['walkForward']>;
+
+  constructor(private runConfig: TradingConfig = config) {
+    if (!runConfig.walkForward) {
+      throw new Error('Walk-forward configuration is missing');
+    }
+    this.settings = runConfig.walkForward;
+    this.optimizer = new Optimizer(runConfig);
+  }
+
+  getWindows(candles: Candle[]): Array<{ trainStart: number; trainEnd: number; testEnd: number }> {
+    const windows: Array<{ trainStart: number; trainEnd: number; testEnd: number }> = [];
+    if (candles.length === 0) return windows;
+
+    const lastOpenTime = candles[candles.length - 1].openTime;
+    const stepMonths = this.settings.stepMonths ?? this.settings.testMonths;
+    let trainStart = moment(new Date(
+      this.runConfig.dataFetch.startDate.year,
+      this.runConfig.dataFetch.startDate.month - 1
+    ));
+
+    while (true) {
+      const trainEnd = trainStart.clone().add(this.settings.trainMonths, 'months');
+      const testEnd = trainEnd.clone().add(this.settings.testMonths, 'months');
+      // Stop once a test window would start after the last loaded candle
+      if (trainEnd.valueOf() > lastOpenTime) break;
+
+      windows.push({
+        trainStart: trainStart.valueOf(),
+        trainEnd: trainEnd.valueOf(),
+        testEnd: testEnd.valueOf(),
+      });
+      trainStart = trainStart.clone().add(stepMonths, 'months');
+    }
+
+    return windows;
+  }
+
+  async analyzePair(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number]
+  ): Promise<void> {
+    console.log(`\n=== Walk-forward analysis for ${symbol} - ${timeframe} ===`);
+    const pairConfig = this.optimizer.getPairConfig(symbol, timeframe);
+    const candles = await this.optimizer.loadCandles(symbol, timeframe);
+
+    const windows = this.getWindows(candles);
+    if (windows.length === 0) {
+      console.log(`Not enough data for a ${this.settings.trainMonths}+${this.settings.testMonths} month window`);
+      return;
+    }
+    console.log(`Running ${windows.length} walk-forward window(s)`);
+
+    const results: WalkForwardWindow[] = [];
+    // The out-of-sample trades of all windows added up, without compounding between windows
+    const equity: EquityPoint[] = [];
+    let balance = this.runConfig.account.initialBalance;
+
+    for (const [index, window] of windows.entries()) {
+      const trainFrom = findIndexAtOrAfter(candles, window.trainStart);
+      const testFrom = findIndexAtOrAfter(candles, window.trainEnd);
+      const testTo = findIndexAtOrAfter(candles, window.testEnd);
+
+      // In-sample: pick the best parameters on the training window only
+      const ranked = await this.optimizer.evaluateGrid(
+        symbol,
+        pairConfig,
+        candles.slice(trainFrom, testFrom)
+      );
+      const best: OptimizationResult = ranked[0];
+      const parameters: OptimizationParameters = {
+        lookbackCandles: best.lookbackCandles,
+        threshold: best.threshold,
+        maxTriggerLevels: best.maxTriggerLevels,
+        maxLookForwardCandles: best.maxLookForwardCandles,
+        trailingStopModel: best.trailingStopModel,
+      };
+
+      const backtester = await this.runTestWindow(symbol, timeframe, pairConfig, parameters, candles, testFrom, testTo);
+
+      for (const update of backtester.getBalanceHistory()) {
+        balance += update.trade_pnl;
+        equity.push({ timestamp: update.timestamp, balance, trade_pnl: update.trade_pnl, window: index + 1 });
+      }
+
+      const format = (timestamp: number) => moment(timestamp).format('YYYY-MM-DD');
+      results.push({
+        window: index + 1,
+        train: { from: format(window.trainStart), to: format(window.trainEnd), candles: testFrom - trainFrom },
+        test: { from: format(window.trainEnd), to: format(window.testEnd), candles: testTo - testFrom },
+        parameters,
+        in_sample: {
+          trade_count: best.trade_count,
+          net_pnl: best.net_pnl,
+          win_rate: best.win_rate,
+          max_drawdown: best.max_drawdown,
+          max_drawdown_percent: best.max_drawdown_percent,
+        },
+        out_of_sample: backtester.getPerformanceSummary(),
+      });
+
+      console.log(`Window ${index + 1}: lookback ${parameters.lookbackCandles}, threshold ${parameters.threshold} | ` +
+        `in-sample ${best.net_pnl.toFixed(2)} USDT, out-of-sample ${results[index].out_of_sample.net_pnl.toFixed(2)} USDT`);
+    }
+
+    await this.saveResults(symbol, timeframe, results, equity);
+  }
+
+  // Out-of-sample run of one window. The strategy's warm-up candles are prepended so the
+  // first signal can fire on the first test candle, but the run never looks past the window.
+  // Every window starts from account.initialBalance like the in-sample runs, so their PnL
+  // is measured on the same base.
+  async runTestWindow(
+    symbol: string,
+    timeframe: (typeof AVAILABLE_TIMEFRAMES)[number],
+    pairConfig: TradingConfig,
+    parameters: OptimizationParameters,
+    candles: Candle[],
+    testFrom: number,
+    testTo: number
+  ): Promise<Backtester> {
+    const backtester = new Backtester(
+      symbol,
+      this.optimizer.applyParameters(pairConfig, parameters),
+      this.optimizer.getDataSource(symbol, timeframe)
+    );
+    backtester.setCandles(candles.slice(Math.max(0, testFrom - backtester.getWarmupCandles()), testTo));
+    await backtester.findMatchingCandles({ saveResults: false });
+    return backtester;
+  }
+
+  async analyzeAll(): Promise<void> {
+    for (const { symbol, timeframe } of this.optimizer.getPairs()) {
+      try {
+        await this.analyzePair(symbol, timeframe);
+      } catch (error) {
+        console.error(`❌ Error in walk-forward analysis for ${symbol} - ${timeframe}:`, error);
+        if (!this.runConfig.optimizer?.allPairs) {
+          throw error;
+        }
+      }
+    }
+
+    console.log('\nWalk-forward analysis complete!');
+  }
+
+  private async saveResults(
+    symbol: string,
+    timeframe: string,
+    windows: WalkForwardWindow[],
+    equity: EquityPoint[]
+  ): Promise<void> {
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const inSamplePnl = sum(windows.map((w) => w.in_sample.net_pnl));
+    const outOfSamplePnl = sum(windows.map((w) => w.out_of_sample.net_pnl));
+    const inSampleTrades = sum(windows.map((w) => w.in_sample.trade_count));
+    const outOfSampleTrades = sum(windows.map((w) => w.out_of_sample.trade_count));
+
+    // Train windows are longer than test windows, so compare PnL per month
+    const inSamplePerMonth = inSamplePnl / (windows.length * this.settings.trainMonths);
+    const outOfSamplePerMonth = outOfSamplePnl / (windows.length * this.settings.testMonths);
+    const outOfSampleWins = equity.filter((point) => point.trade_pnl > 0).length;
+
+    const report = {
+      symbol,
+      timeframe,
+      settings: this.settings,
+      config: this.runConfig,
+      comparison: {
+        in_sample: {
+          net_pnl: inSamplePnl,
+          net_pnl_per_month: inSamplePerMonth,
+          trade_count: inSampleTrades,
+          average_win_rate: windows.length > 0 ? sum(windows.map((w) => w.in_sample.win_rate)) / windows.length : 0,
+        },
+        out_of_sample: {
+          net_pnl: outOfSamplePnl,
+          net_pnl_per_month: outOfSamplePerMonth,
+          trade_count: outOfSampleTrades,
+          win_rate: outOfSampleTrades > 0 ? (outOfSampleWins / outOfSampleTrades) * 100 : 0,
+          final_balance: equity.length > 0 ? equity[equity.length - 1].balance : this.runConfig.account.initialBalance,
+          ...calculateDrawdown(equity, this.runConfig.account.initialBalance),
+        },
+        // Share of the in-sample edge that survived on unseen data (1 = no decay)
+        walk_forward_efficiency: inSamplePerMonth !== 0 ? outOfSamplePerMonth / inSamplePerMonth : null,
+      },
+      windows,
+      out_of_sample_equity: equity,
+    };
+
+    const symbolDir = path.join(__dirname, `../results/${symbol}`);
+    if (!fs.existsSync(symbolDir)) {
+      await fs.promises.mkdir(symbolDir, { recursive: true });
+    }
+    const resultFile = path.join(symbolDir, `${timeframe}_walk_forward.json`);
+    await fs.promises.writeFile(resultFile, JSON.stringify(report, null, 2));
+
+    console.log(`\nIn-sample: ${inSamplePerMonth.toFixed(2)} USDT/month | ` +
+      `Out-of-sample: ${outOfSamplePerMonth.toFixed(2)} USDT/month`);
+    console.log(`Walk-forward results saved to ${resultFile}`);
+  }
+}